@@ -1,8 +1,31 @@
+import fs from 'node:fs'
+import path from 'node:path'
 import { NextConfig } from 'next'
 import { codeInspectorPlugin } from 'code-inspector-plugin'
+import { buildBlogRedirectRules, type BlogRedirects } from './src/lib/blog-redirects'
+
+// 文章修改 slug 后记录的旧 slug → 新 slug
+const readBlogRedirects = (): BlogRedirects => {
+	try {
+		return JSON.parse(fs.readFileSync(path.join(process.cwd(), 'public/blogs/redirects.json'), 'utf-8'))
+	} catch {
+		return {}
+	}
+}
+
+const readPackageVersion = (): string => {
+	try {
+		return JSON.parse(fs.readFileSync(path.join(process.cwd(), 'package.json'), 'utf-8')).version
+	} catch {
+		return 'dev'
+	}
+}
 
 const nextConfig: NextConfig = {
 	devIndicators: false,
+	env: {
+		NEXT_PUBLIC_CLIENT_VERSION: readPackageVersion()
+	},
 	reactStrictMode: false,
 	reactCompiler: true,
 	pageExtensions: ['ts', 'tsx', 'js', 'jsx', 'md', 'mdx'],
@@ -45,7 +68,8 @@ const nextConfig: NextConfig = {
 				source: '/en',
 				destination: '/',
 				permanent: true
-			}
+			},
+			...buildBlogRedirectRules(readBlogRedirects())
 		]
 	}
 }
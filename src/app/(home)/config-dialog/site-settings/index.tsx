@@ -86,6 +86,16 @@ export function SiteSettings({
 					<span className='text-sm font-medium'>摘要放入内容</span>
 				</label>
 
+				<label className='flex items-center gap-2'>
+					<input
+						type='checkbox'
+						checked={formData.footnotesInSidebar ?? false}
+						onChange={e => setFormData({ ...formData, footnotesInSidebar: e.target.checked })}
+						className='accent-brand h-4 w-4 rounded'
+					/>
+					<span className='text-sm font-medium'>脚注显示在侧边栏</span>
+				</label>
+
 				<label className='flex items-center gap-2'>
 					<input
 						type='checkbox'
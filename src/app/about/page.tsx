@@ -52,7 +52,7 @@ export default function Page() {
 		setIsSaving(true)
 
 		try {
-			await pushAbout(data)
+			await pushAbout(data, originalData)
 
 			setOriginalData(data)
 			setIsEditMode(false)
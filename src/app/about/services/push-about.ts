@@ -1,45 +1,29 @@
-import { toBase64Utf8, getRef, createTree, createCommit, updateRef, createBlob, type TreeItem } from '@/lib/github-client'
-import { getAuthToken } from '@/lib/auth'
-import { GITHUB_CONFIG } from '@/consts'
+import { Changeset } from '@/lib/changeset'
+import { mergeObjectEdits, readJsonFile } from '@/lib/list-merge'
+import { requireRole } from '@/lib/permissions'
 import { toast } from 'sonner'
 
+const LIST_PATH = 'src/app/about/list.json'
+
 export type AboutData = {
 	title: string
 	description: string
 	content: string
 }
 
-export async function pushAbout(data: AboutData): Promise<void> {
-	const token = await getAuthToken()
-
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
-
-	const commitMessage = `更新关于页面`
-
-	toast.info('正在准备文件...')
+/**
+ * @param originalData 编辑开始时的内容，提交时只用本地改动过的字段覆盖最新的 list.json
+ */
+export async function pushAbout(data: AboutData, originalData: AboutData): Promise<void> {
+	await requireRole('editor', '更新关于页面')
 
-	const treeItems: TreeItem[] = []
+	const changeset = new Changeset()
 
-	const aboutJson = JSON.stringify(data, null, '\t')
-	const aboutBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(aboutJson), 'base64')
-	treeItems.push({
-		path: 'src/app/about/list.json',
-		mode: '100644',
-		type: 'blob',
-		sha: aboutBlob.sha
+	changeset.addComputedTextFile(LIST_PATH, async ref => {
+		const latest = (await readJsonFile<Partial<AboutData>>(changeset.store, LIST_PATH, ref)) ?? {}
+		return JSON.stringify(mergeObjectEdits(originalData, data, latest), null, '\t')
 	})
-
-	toast.info('正在创建文件树...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
-
-	toast.info('正在创建提交...')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitMessage, treeData.sha, [latestCommitSha])
-
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+	await changeset.commit(`更新关于页面`, { operation: 'about.update' })
 
 	toast.success('发布成功！')
 }
-
@@ -0,0 +1,42 @@
+import useSWR from 'swr'
+import useSWRInfinite from 'swr/infinite'
+import { useAuthStore } from '@/hooks/use-auth'
+import { CONTENT_STORE } from '@/consts'
+import { getCurrentActor } from '@/lib/permissions'
+import { ACTIVITY_PAGE_SIZE, listActivity } from '../services/activity'
+
+/**
+ * 活动时间线只对管理员开放
+ */
+export function useIsAdmin() {
+	const { isAuth, provider, login } = useAuthStore()
+	const active = isAuth && CONTENT_STORE === 'github'
+	const { data, isLoading } = useSWR(active ? ['current-actor', provider, login] : null, () => getCurrentActor(), { revalidateOnFocus: false })
+
+	return { isAdmin: data?.role === 'admin', loading: isLoading }
+}
+
+export function useActivity(enabled: boolean) {
+	const { data, error, isLoading, isValidating, size, setSize, mutate } = useSWRInfinite(
+		(index, previous: unknown[] | null) => {
+			if (!enabled) return null
+			if (previous && previous.length < ACTIVITY_PAGE_SIZE) return null
+			return ['activity', index + 1]
+		},
+		([, page]) => listActivity(page as number),
+		{ revalidateOnFocus: false, revalidateFirstPage: false }
+	)
+
+	const pages = data ?? []
+	const hasMore = pages.length > 0 && pages[pages.length - 1].length === ACTIVITY_PAGE_SIZE
+
+	return {
+		entries: pages.flat(),
+		loading: isLoading,
+		loadingMore: isValidating && size > pages.length,
+		hasMore,
+		loadMore: () => setSize(size + 1),
+		refresh: mutate,
+		error
+	}
+}
@@ -0,0 +1,160 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import dayjs from 'dayjs'
+import { motion } from 'motion/react'
+import { ExternalLink } from 'lucide-react'
+import { INIT_DELAY } from '@/consts'
+import { AUDIT_SECTION_LABELS, type AuditSection } from '@/lib/audit'
+import { useAuthStore } from '@/hooks/use-auth'
+import { cn } from '@/lib/utils'
+import { useActivity, useIsAdmin } from './hooks/use-activity'
+import type { ActivityEntry } from './services/activity'
+
+type SectionFilter = AuditSection | 'all' | 'other'
+
+const FILTERS: { value: SectionFilter; label: string }[] = [
+	{ value: 'all', label: '全部' },
+	...(Object.entries(AUDIT_SECTION_LABELS) as [AuditSection, string][]).map(([value, label]) => ({ value, label })),
+	{ value: 'other', label: '其他' }
+]
+
+const matchesFilter = (entry: ActivityEntry, filter: SectionFilter): boolean => {
+	if (filter === 'all') return true
+	if (filter === 'other') return entry.audit.section === null
+	return entry.audit.section === filter
+}
+
+function ActivityItem({ entry }: { entry: ActivityEntry }) {
+	const { audit } = entry
+	const paths = audit.omittedPaths > 0 ? [...audit.paths, `... 另外 ${audit.omittedPaths} 个文件`] : audit.paths
+
+	return (
+		<li className='relative border-l border-[#D9D9D9] py-3 pl-5'>
+			<span className={cn('absolute top-[18px] -left-[5px] h-2.5 w-2.5 rounded-full', audit.operation ? 'bg-brand' : 'bg-[#D9D9D9]')} />
+			<div className='flex items-start justify-between gap-3'>
+				<div className='min-w-0'>
+					<div className='flex flex-wrap items-center gap-2 text-sm'>
+						<span className='font-medium'>{entry.subject}</span>
+						{audit.section && <span className='bg-brand/10 text-brand rounded-md px-1.5 py-0.5 text-xs'>{AUDIT_SECTION_LABELS[audit.section]}</span>}
+						{audit.operation && <span className='text-secondary font-mono text-xs'>{audit.operation}</span>}
+					</div>
+					<div className='text-secondary mt-1 flex flex-wrap gap-x-3 text-xs'>
+						<span>{dayjs(entry.date).format('HH:mm')}</span>
+						<span>{audit.actor || entry.author}</span>
+						{audit.clientVersion && <span>v{audit.clientVersion}</span>}
+					</div>
+					{audit.slugs.length > 0 && (
+						<div className='mt-2 flex flex-wrap gap-1.5'>
+							{audit.slugs.map(slug => (
+								<Link key={slug} href={`/blog/${slug}`} className='hover:text-brand rounded-md border px-1.5 py-0.5 text-xs'>
+									{slug}
+								</Link>
+							))}
+						</div>
+					)}
+					{paths.length > 0 && (
+						<details className='mt-2 text-xs'>
+							<summary className='text-secondary cursor-pointer select-none'>{audit.paths.length + audit.omittedPaths} 个文件</summary>
+							<ul className='text-secondary mt-1 space-y-0.5 font-mono'>
+								{paths.map(path => (
+									<li key={path} className='truncate'>
+										{path}
+									</li>
+								))}
+							</ul>
+						</details>
+					)}
+				</div>
+				<a href={entry.htmlUrl} target='_blank' rel='noreferrer' className='text-secondary hover:text-brand flex shrink-0 items-center gap-1 font-mono text-xs'>
+					{entry.sha.slice(0, 7)}
+					<ExternalLink className='size-3' />
+				</a>
+			</div>
+		</li>
+	)
+}
+
+export default function Page() {
+	const { isAuth } = useAuthStore()
+	const { isAdmin, loading: roleLoading } = useIsAdmin()
+	const { entries, loading, loadingMore, hasMore, loadMore, error } = useActivity(isAdmin)
+	const [filter, setFilter] = useState<SectionFilter>('all')
+
+	const groups = useMemo(() => {
+		const grouped = new Map<string, ActivityEntry[]>()
+		for (const entry of entries) {
+			if (!matchesFilter(entry, filter)) continue
+			const day = dayjs(entry.date).format('YYYY-MM-DD')
+			grouped.set(day, [...(grouped.get(day) || []), entry])
+		}
+		return Array.from(grouped.entries())
+	}, [entries, filter])
+
+	let notice: string | null = null
+	if (!isAuth) notice = '请先登录后查看活动记录'
+	else if (roleLoading) notice = '正在检查权限...'
+	else if (!isAdmin) notice = '活动记录仅对管理员开放'
+	else if (loading) notice = '加载中...'
+	else if (error) notice = `加载失败: ${error?.message || '未知错误'}`
+	else if (groups.length === 0) notice = hasMore ? '已加载的记录中没有该板块的改动' : '暂无活动记录'
+
+	return (
+		<div className='flex flex-col items-center justify-center gap-6 px-6 pt-24 pb-12'>
+			{isAdmin && (
+				<motion.div
+					initial={{ opacity: 0, scale: 0.6 }}
+					animate={{ opacity: 1, scale: 1 }}
+					className='card btn-rounded relative mx-auto flex flex-wrap items-center justify-center gap-1 p-1'>
+					{FILTERS.map(option => (
+						<motion.button
+							key={option.value}
+							whileHover={{ scale: 1.05 }}
+							whileTap={{ scale: 0.95 }}
+							onClick={() => setFilter(option.value)}
+							className={cn(
+								'btn-rounded px-3 py-1.5 text-xs font-medium transition-all',
+								filter === option.value ? 'bg-brand text-white shadow-sm' : 'text-secondary hover:text-brand hover:bg-white/60'
+							)}>
+							{option.label}
+						</motion.button>
+					))}
+				</motion.div>
+			)}
+
+			{notice && <div className='card text-secondary w-full max-w-[840px] text-center text-sm'>{notice}</div>}
+
+			{groups.map(([day, items]) => (
+				<motion.div
+					key={day}
+					initial={{ opacity: 0, scale: 0.95 }}
+					whileInView={{ opacity: 1, scale: 1 }}
+					transition={{ delay: INIT_DELAY / 2 }}
+					className='card relative w-full max-w-[840px]'>
+					<div className='mb-3 flex items-center gap-3 text-base'>
+						<div className='font-medium'>{day}</div>
+						<div className='h-2 w-2 rounded-full bg-[#D9D9D9]'></div>
+						<div className='text-secondary text-sm'>{items.length} 次改动</div>
+					</div>
+					<ul className='ml-1'>
+						{items.map(entry => (
+							<ActivityItem key={entry.sha} entry={entry} />
+						))}
+					</ul>
+				</motion.div>
+			))}
+
+			{isAdmin && hasMore && (
+				<motion.button
+					whileHover={{ scale: 1.05 }}
+					whileTap={{ scale: 0.95 }}
+					disabled={loadingMore}
+					onClick={loadMore}
+					className='bg-card rounded-xl border px-4 py-2 text-sm'>
+					{loadingMore ? '加载中...' : '加载更早的记录'}
+				</motion.button>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,20 @@
+import { getActiveSite } from '@/hooks/use-site-registry'
+import { parseAuditTrailer, type AuditRecord } from '@/lib/audit'
+import { requireGithubStore } from '@/lib/content-store'
+import type { CommitSummary } from '@/lib/github-client'
+
+export const ACTIVITY_PAGE_SIZE = 50
+
+export type ActivityEntry = CommitSummary & {
+	subject: string
+	audit: AuditRecord
+}
+
+export async function listActivity(page: number): Promise<ActivityEntry[]> {
+	const commits = await requireGithubStore('活动记录').listCommits('', getActiveSite().branch, ACTIVITY_PAGE_SIZE, page)
+	return commits.map(commit => ({
+		...commit,
+		subject: commit.message.split('\n')[0],
+		audit: parseAuditTrailer(commit.message)
+	}))
+}
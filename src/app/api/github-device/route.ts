@@ -0,0 +1,33 @@
+import { GITHUB_CONFIG } from '@/consts'
+
+// GitHub 的 OAuth 设备登录接口不支持跨域请求，由该路由代为转发
+const DEVICE_CODE_URL = 'https://github.com/login/device/code'
+const ACCESS_TOKEN_URL = 'https://github.com/login/oauth/access_token'
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code'
+
+export const dynamic = 'force-dynamic'
+
+type DeviceRequest = { action: 'code' } | { action: 'token'; deviceCode: string }
+
+const postForm = (url: string, params: Record<string, string>): Promise<Response> =>
+	fetch(url, {
+		method: 'POST',
+		headers: { Accept: 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' },
+		body: new URLSearchParams(params)
+	})
+
+export async function POST(request: Request): Promise<Response> {
+	if (!GITHUB_CONFIG.CLIENT_ID) return new Response('Device flow is not configured', { status: 404 })
+
+	const body = (await request.json().catch(() => null)) as DeviceRequest | null
+	let res: Response
+	if (body?.action === 'code') {
+		res = await postForm(DEVICE_CODE_URL, { client_id: GITHUB_CONFIG.CLIENT_ID })
+	} else if (body?.action === 'token' && body.deviceCode) {
+		res = await postForm(ACCESS_TOKEN_URL, { client_id: GITHUB_CONFIG.CLIENT_ID, device_code: body.deviceCode, grant_type: DEVICE_GRANT_TYPE })
+	} else {
+		return new Response('Invalid body', { status: 400 })
+	}
+
+	return Response.json(await res.json(), { status: res.status })
+}
@@ -0,0 +1,85 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+// 仅开发环境可用：LocalContentStore 通过该路由直接读写仓库中的内容文件
+const ROOT_DIR = process.cwd()
+const READABLE_DIRS = ['public', 'src'].map(dir => path.join(ROOT_DIR, dir))
+// 只允许写入页面编辑的内容文件，避免改动源码后被热更新执行
+const WRITABLE_PATHS = [/^public\/(?:blogs|images)\//, /^public\/favicon\.png$/, /^src\/config\/[^/]+\.json$/, /^src\/app\/[^/]+\/list\.json$/]
+
+export const dynamic = 'force-dynamic'
+
+type FileChange = {
+	path: string
+	content: string | null
+}
+
+const isDev = (): boolean => process.env.NODE_ENV === 'development'
+
+const notFound = (): Response => new Response('Not Found', { status: 404 })
+
+const resolveRepoPath = (repoPath: string | null): string | null => {
+	if (!repoPath) return null
+	const absolute = path.resolve(ROOT_DIR, repoPath)
+	return READABLE_DIRS.some(dir => absolute.startsWith(`${dir}${path.sep}`) || absolute === dir) ? absolute : null
+}
+
+const isWritable = (absolute: string): boolean => {
+	const repoPath = path.relative(ROOT_DIR, absolute).split(path.sep).join('/')
+	return WRITABLE_PATHS.some(rule => rule.test(repoPath))
+}
+
+// 跨站的 text/plain 表单请求不会触发 CORS 预检，只接受同源的 JSON 请求
+const isSameOriginJson = (request: Request): boolean =>
+	request.headers.get('origin') === new URL(request.url).origin && !!request.headers.get('content-type')?.startsWith('application/json')
+
+const listFiles = async (absolute: string): Promise<string[]> => {
+	const stat = await fs.stat(absolute)
+	if (stat.isFile()) return [path.relative(ROOT_DIR, absolute).split(path.sep).join('/')]
+
+	const files: string[] = []
+	for (const entry of await fs.readdir(absolute, { withFileTypes: true })) {
+		files.push(...(await listFiles(path.join(absolute, entry.name))))
+	}
+	return files
+}
+
+export async function GET(request: Request): Promise<Response> {
+	if (!isDev()) return notFound()
+
+	const { searchParams } = new URL(request.url)
+	const absolute = resolveRepoPath(searchParams.get('path'))
+	if (!absolute) return new Response('Invalid path', { status: 400 })
+
+	try {
+		if (searchParams.get('list')) {
+			return Response.json({ files: await listFiles(absolute) })
+		}
+		const content = await fs.readFile(absolute)
+		return Response.json({ content: content.toString('base64') })
+	} catch {
+		return notFound()
+	}
+}
+
+export async function POST(request: Request): Promise<Response> {
+	if (!isDev()) return notFound()
+	if (!isSameOriginJson(request)) return new Response('Forbidden', { status: 403 })
+
+	const { changes } = (await request.json()) as { changes?: FileChange[] }
+	if (!Array.isArray(changes)) return new Response('Invalid body', { status: 400 })
+
+	const resolved = changes.map(change => ({ ...change, absolute: resolveRepoPath(change.path) }))
+	if (resolved.some(change => !change.absolute || !isWritable(change.absolute))) return new Response('Invalid path', { status: 400 })
+
+	for (const { absolute, content } of resolved) {
+		if (content === null) {
+			await fs.rm(absolute!, { force: true })
+		} else {
+			await fs.mkdir(path.dirname(absolute!), { recursive: true })
+			await fs.writeFile(absolute!, Buffer.from(content, 'base64'))
+		}
+	}
+
+	return Response.json({ ok: true })
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react'
+import { useRouter } from 'next/navigation'
+import dayjs from 'dayjs'
+import { motion } from 'motion/react'
+import { BlogPreview } from '@/components/blog-preview'
+import { BlogArticle } from '@/components/blog-article'
+import { loadBlog, type BlogConfig } from '@/lib/load-blog'
+import { useReadArticles } from '@/hooks/use-read-articles'
+import { isDefaultSite } from '@/hooks/use-site-registry'
+import LiquidGrass from '@/components/liquid-grass'
+import { fetchBlogRedirects, resolveBlogRedirect } from '@/lib/blog-redirects'
+import type { FootnoteItem, TocItem } from '@/lib/markdown/pipeline'
+
+export type PrerenderedPost = {
+	config: BlogConfig
+	cover?: string
+	content: ReactNode
+	toc: TocItem[]
+	footnotes: FootnoteItem[]
+}
+
+const formatDate = (date?: string) => dayjs(date).format('YYYY年 M月 D日')
+
+/**
+ * 构建后新发布的文章、切换到其他站点时，在浏览器中读取并渲染
+ */
+function ClientBlogPost({ slug }: { slug: string }) {
+	const router = useRouter()
+	const { markAsRead } = useReadArticles()
+
+	const [blog, setBlog] = useState<{ config: BlogConfig; markdown: string; cover?: string } | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState<boolean>(true)
+
+	useEffect(() => {
+		let cancelled = false
+		async function run() {
+			if (!slug) return
+			try {
+				setLoading(true)
+				const blogData = await loadBlog(slug)
+
+				if (!cancelled) {
+					setBlog(blogData)
+					setError(null)
+					markAsRead(slug)
+				}
+			} catch (e: any) {
+				// 文章改过 slug 时跳转到新地址（部署前 next.config 中的跳转尚未生效）
+				const target = resolveBlogRedirect(await fetchBlogRedirects(), slug)
+				if (cancelled) return
+				if (target) {
+					router.replace(`/blog/${target}`)
+					return
+				}
+				setError(e?.message || '加载失败')
+			} finally {
+				if (!cancelled) setLoading(false)
+			}
+		}
+		run()
+		return () => {
+			cancelled = true
+		}
+	}, [slug, markAsRead, router])
+
+	const title = useMemo(() => (blog?.config.title ? blog.config.title : slug), [blog?.config.title, slug])
+	const date = useMemo(() => formatDate(blog?.config.date), [blog?.config.date])
+	const tags = blog?.config.tags || []
+
+	if (loading) {
+		return <div className='text-secondary flex h-full items-center justify-center text-sm'>加载中...</div>
+	}
+
+	if (error) {
+		return <div className='flex h-full items-center justify-center text-sm text-red-500'>{error}</div>
+	}
+
+	if (!blog) {
+		return <div className='text-secondary flex h-full items-center justify-center text-sm'>文章不存在</div>
+	}
+
+	return (
+		<BlogPreview
+			markdown={blog.markdown}
+			title={title}
+			tags={tags}
+			date={date}
+			summary={blog.config.summary}
+			cover={blog.cover ? `${origin}${blog.cover}` : undefined}
+			slug={slug}
+		/>
+	)
+}
+
+export function BlogPost({ slug, prerendered }: { slug: string; prerendered: PrerenderedPost | null }) {
+	const router = useRouter()
+	const { markAsRead } = useReadArticles()
+	// 预渲染内容来自默认站点
+	const [clientOnly, setClientOnly] = useState(!prerendered)
+
+	useEffect(() => {
+		if (!prerendered) return
+		if (!isDefaultSite()) setClientOnly(true)
+		else markAsRead(slug)
+	}, [prerendered, slug, markAsRead])
+
+	const handleEdit = () => {
+		router.push(`/write/${slug}`)
+	}
+
+	if (!slug) {
+		return <div className='text-secondary flex h-full items-center justify-center text-sm'>无效的链接</div>
+	}
+
+	return (
+		<>
+			{clientOnly || !prerendered ? (
+				<ClientBlogPost slug={slug} />
+			) : (
+				<BlogArticle
+					content={prerendered.content}
+					toc={prerendered.toc}
+					footnotes={prerendered.footnotes}
+					title={prerendered.config.title || slug}
+					tags={prerendered.config.tags || []}
+					date={formatDate(prerendered.config.date)}
+					summary={prerendered.config.summary}
+					cover={prerendered.cover}
+					slug={slug}
+					prerendered
+				/>
+			)}
+
+			<motion.button
+				initial={{ opacity: 0, scale: 0.6 }}
+				animate={{ opacity: 1, scale: 1 }}
+				whileHover={{ scale: 1.05 }}
+				whileTap={{ scale: 0.95 }}
+				onClick={handleEdit}
+				className='absolute top-4 right-6 rounded-xl border bg-white/60 px-6 py-2 text-sm backdrop-blur-sm transition-colors hover:bg-white/80 max-sm:hidden'>
+				编辑
+			</motion.button>
+
+			{slug === 'liquid-grass' && <LiquidGrass />}
+		</>
+	)
+}
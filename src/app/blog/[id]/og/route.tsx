@@ -0,0 +1,17 @@
+import { decodeSlug, listPrerenderSlugs, loadBlogFromDisk } from '@/lib/load-blog-server'
+import { renderOgImage } from '@/lib/og-image'
+
+type Params = { id: string }
+
+// 与文章页一致，已公开的文章在构建时生成分享图
+export async function generateStaticParams(): Promise<Params[]> {
+	return (await listPrerenderSlugs()).map(id => ({ id }))
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<Params> }): Promise<Response> {
+	const slug = decodeSlug((await params).id)
+	const blog = await loadBlogFromDisk(slug)
+	if (!blog) return new Response('Not Found', { status: 404 })
+
+	return renderOgImage({ title: blog.config.title || slug, tags: blog.config.tags, date: blog.config.date })
+}
@@ -1,96 +1,44 @@
-'use client'
+import type { Metadata } from 'next'
+import { buildArticleJsonLd, buildBlogMetadata, serializeJsonLd } from '@/lib/blog-metadata'
+import { decodeSlug, listPrerenderSlugs, loadBlogFromDisk, prerenderBlog } from '@/lib/load-blog-server'
+import { markdownHtmlToReact } from '@/lib/markdown-html'
+import { BlogPost } from './blog-post'
 
-import { useEffect, useMemo, useState } from 'react'
-import { useParams, useRouter } from 'next/navigation'
-import dayjs from 'dayjs'
-import { motion } from 'motion/react'
-import { BlogPreview } from '@/components/blog-preview'
-import { loadBlog, type BlogConfig } from '@/lib/load-blog'
-import { useReadArticles } from '@/hooks/use-read-articles'
-import LiquidGrass from '@/components/liquid-grass'
+type Params = { id: string }
 
-export default function Page() {
-	const params = useParams() as { id?: string | string[] }
-	const slug = Array.isArray(params?.id) ? params.id[0] : params?.id || ''
-	const router = useRouter()
-	const { markAsRead } = useReadArticles()
-
-	const [blog, setBlog] = useState<{ config: BlogConfig; markdown: string; cover?: string } | null>(null)
-	const [error, setError] = useState<string | null>(null)
-	const [loading, setLoading] = useState<boolean>(true)
-
-	useEffect(() => {
-		let cancelled = false
-		async function run() {
-			if (!slug) return
-			try {
-				setLoading(true)
-				const blogData = await loadBlog(slug)
-
-				if (!cancelled) {
-					setBlog(blogData)
-					setError(null)
-					markAsRead(slug)
-				}
-			} catch (e: any) {
-				if (!cancelled) setError(e?.message || '加载失败')
-			} finally {
-				if (!cancelled) setLoading(false)
-			}
-		}
-		run()
-		return () => {
-			cancelled = true
-		}
-	}, [slug, markAsRead])
-
-	const title = useMemo(() => (blog?.config.title ? blog.config.title : slug), [blog?.config.title, slug])
-	const date = useMemo(() => dayjs(blog?.config.date).format('YYYY年 M月 D日'), [blog?.config.date])
-	const tags = blog?.config.tags || []
-
-	const handleEdit = () => {
-		router.push(`/write/${slug}`)
-	}
-
-	if (!slug) {
-		return <div className='text-secondary flex h-full items-center justify-center text-sm'>无效的链接</div>
-	}
-
-	if (loading) {
-		return <div className='text-secondary flex h-full items-center justify-center text-sm'>加载中...</div>
-	}
+// 已公开的文章在构建时生成静态页面，其余 slug 访问时再渲染
+export async function generateStaticParams(): Promise<Params[]> {
+	return (await listPrerenderSlugs()).map(id => ({ id }))
+}
 
-	if (error) {
-		return <div className='flex h-full items-center justify-center text-sm text-red-500'>{error}</div>
-	}
+// 读取不到文章时沿用根布局的站点信息
+export async function generateMetadata({ params }: { params: Promise<Params> }): Promise<Metadata> {
+	const slug = decodeSlug((await params).id)
+	const source = await loadBlogFromDisk(slug)
+	return source ? buildBlogMetadata(source, (await listPrerenderSlugs()).includes(slug)) : {}
+}
 
-	if (!blog) {
-		return <div className='text-secondary flex h-full items-center justify-center text-sm'>文章不存在</div>
-	}
+export default async function Page({ params }: { params: Promise<Params> }) {
+	const slug = decodeSlug((await params).id)
+	const source = await loadBlogFromDisk(slug)
+	const blog = await prerenderBlog(slug)
+	const prerendered = (await listPrerenderSlugs()).includes(slug)
 
 	return (
 		<>
-			<BlogPreview
-				markdown={blog.markdown}
-				title={title}
-				tags={tags}
-				date={date}
-				summary={blog.config.summary}
-				cover={blog.cover ? `${origin}${blog.cover}` : undefined}
+			{source && <script type='application/ld+json' dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildArticleJsonLd(source, prerendered)) }} />}
+			<BlogPost
 				slug={slug}
+				prerendered={
+					blog && {
+						config: blog.config,
+						cover: blog.cover,
+						content: markdownHtmlToReact(blog.html),
+						toc: blog.toc,
+						footnotes: blog.footnotes
+					}
+				}
 			/>
-
-			<motion.button
-				initial={{ opacity: 0, scale: 0.6 }}
-				animate={{ opacity: 1, scale: 1 }}
-				whileHover={{ scale: 1.05 }}
-				whileTap={{ scale: 0.95 }}
-				onClick={handleEdit}
-				className='absolute top-4 right-6 rounded-xl border bg-white/60 px-6 py-2 text-sm backdrop-blur-sm transition-colors hover:bg-white/80 max-sm:hidden'>
-				编辑
-			</motion.button>
-
-			{slug === 'liquid-grass' && <LiquidGrass />}
 		</>
 	)
 }
@@ -0,0 +1,35 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getPublishTime } from '@/lib/blog-schedule'
+import { cn } from '@/lib/utils'
+
+const formatCountdown = (ms: number): string => {
+	const minutes = Math.ceil(ms / 60_000)
+	const days = Math.floor(minutes / 1440)
+	const hours = Math.floor((minutes % 1440) / 60)
+	const mins = minutes % 60
+	if (days > 0) return `${days}天${hours}小时后`
+	if (hours > 0) return `${hours}小时${mins}分后`
+	return `${mins}分钟后`
+}
+
+export function ScheduledBadge({ date, className }: { date: string; className?: string }) {
+	const [now, setNow] = useState(() => Date.now())
+
+	useEffect(() => {
+		const timer = setInterval(() => setNow(Date.now()), 30_000)
+		return () => clearInterval(timer)
+	}, [])
+
+	const remaining = getPublishTime({ date }) - now
+	if (remaining <= 0) return null
+
+	return (
+		<span
+			title={`定时发布于 ${date.replace('T', ' ')}`}
+			className={cn('shrink-0 rounded-md border border-amber-200 bg-amber-50 px-1.5 py-0.5 text-xs text-amber-700 tabular-nums', className)}>
+			定时 · {formatCountdown(remaining)}
+		</span>
+	)
+}
@@ -21,11 +21,13 @@ import { cn } from '@/lib/utils'
 import { saveBlogEdits } from './services/save-blog-edits'
 import { Check } from 'lucide-react'
 import { CategoryModal } from './components/category-modal'
+import { ScheduledBadge } from './components/scheduled-badge'
+import { isScheduledPost } from '@/lib/blog-schedule'
 
 type DisplayMode = 'day' | 'week' | 'month' | 'year' | 'category'
 
 export default function BlogPage() {
-	const { items, loading } = useBlogIndex()
+	const { items, loading, hasMore, loadingMore, loadMore } = useBlogIndex()
 	const { categories: categoriesFromServer } = useCategories()
 	const { isRead } = useReadArticles()
 	const { isAuth, setPrivateKey } = useAuthStore()
@@ -36,6 +38,8 @@ export default function BlogPage() {
 	const keyInputRef = useRef<HTMLInputElement>(null)
 	const [editMode, setEditMode] = useState(false)
 	const [editableItems, setEditableItems] = useState<BlogIndexItem[]>([])
+	// 进入编辑时的文章快照，保存时只与它比较，编辑期间不能加载更多，重新拉取的文章也不算作删除
+	const [originItems, setOriginItems] = useState<BlogIndexItem[]>([])
 	const [selectedSlugs, setSelectedSlugs] = useState<Set<string>>(new Set())
 	const [saving, setSaving] = useState(false)
 	const [displayMode, setDisplayMode] = useState<DisplayMode>('year')
@@ -133,6 +137,7 @@ export default function BlogPage() {
 			setEditableItems(items)
 			setSelectedSlugs(new Set())
 		} else {
+			setOriginItems(items)
 			setEditableItems(items)
 			setEditMode(true)
 		}
@@ -244,10 +249,11 @@ export default function BlogPage() {
 	}, [items])
 
 	const handleSave = useCallback(async () => {
-		const removedSlugs = items.filter(item => !editableItems.some(editItem => editItem.slug === item.slug)).map(item => item.slug)
+		const removedSlugs = originItems.filter(item => !editableItems.some(editItem => editItem.slug === item.slug)).map(item => item.slug)
 		const normalizedCategoryList = categoryList.map(c => c.trim()).filter(Boolean)
-		const categoryListChanged = JSON.stringify(normalizedCategoryList) !== JSON.stringify((categoriesFromServer || []).map(c => c.trim()).filter(Boolean))
-		const categoryAssignmentChanged = items.some(origin => {
+		const normalizedServerCategories = (categoriesFromServer || []).map(c => c.trim()).filter(Boolean)
+		const categoryListChanged = JSON.stringify(normalizedCategoryList) !== JSON.stringify(normalizedServerCategories)
+		const categoryAssignmentChanged = originItems.some(origin => {
 			const next = editableItems.find(editItem => editItem.slug === origin.slug)
 			const originCategory = origin.category || ''
 			const nextCategory = next?.category || ''
@@ -262,7 +268,7 @@ export default function BlogPage() {
 
 		try {
 			setSaving(true)
-			await saveBlogEdits(items, editableItems, normalizedCategoryList)
+			await saveBlogEdits(originItems, editableItems, normalizedServerCategories, normalizedCategoryList)
 			setEditMode(false)
 			setSelectedSlugs(new Set())
 			setCategoryModalOpen(false)
@@ -272,7 +278,7 @@ export default function BlogPage() {
 		} finally {
 			setSaving(false)
 		}
-	}, [items, editableItems, categoryList, categoriesFromServer])
+	}, [originItems, editableItems, categoryList, categoriesFromServer])
 
 	const handleSaveClick = useCallback(() => {
 		if (!isAuth) {
@@ -429,6 +435,7 @@ export default function BlogPage() {
 												{it.title || it.slug}
 												{hasRead && <span className='text-secondary ml-2 text-xs'>[已阅读]</span>}
 											</div>
+											{isAuth && isScheduledPost(it) && <ScheduledBadge date={it.date} />}
 											<div className='flex flex-wrap items-center gap-2 max-sm:hidden'>
 												{(it.tags || []).map(t => (
 													<span key={t} className='text-secondary text-sm'>
@@ -443,6 +450,20 @@ export default function BlogPage() {
 						</motion.div>
 					)
 				})}
+				{hasMore && !editMode && (
+					<div className='text-center'>
+						<motion.button
+							initial={{ opacity: 0, scale: 0.6 }}
+							animate={{ opacity: 1, scale: 1 }}
+							whileHover={{ scale: 1.05 }}
+							whileTap={{ scale: 0.95 }}
+							disabled={loadingMore}
+							onClick={loadMore}
+							className='card text-secondary static inline-flex items-center gap-2 rounded-xl px-4 py-2 text-xs'>
+							{loadingMore ? '加载中...' : '加载更早的文章'}
+						</motion.button>
+					</div>
+				)}
 				{items.length > 0 && (
 					<div className='text-center'>
 						<motion.a
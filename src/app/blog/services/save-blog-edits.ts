@@ -1,60 +1,32 @@
 import { toast } from 'sonner'
-import { GITHUB_CONFIG } from '@/consts'
-import { getAuthToken } from '@/lib/auth'
-import { createBlob, createCommit, createTree, getRef, listRepoFilesRecursive, toBase64Utf8, type TreeItem, updateRef } from '@/lib/github-client'
-import type { BlogIndexItem } from '@/lib/blog-index'
-
-export async function saveBlogEdits(originalItems: BlogIndexItem[], nextItems: BlogIndexItem[], categories: string[]): Promise<void> {
+import { Changeset } from '@/lib/changeset'
+import { requireRole } from '@/lib/permissions'
+import { mergeBlogsIndexEdits, type BlogIndexItem } from '@/lib/blog-index'
+import { BLOG_CATEGORIES_PATH, prepareBlogCategories } from '@/lib/blog-categories'
+
+export async function saveBlogEdits(
+	originalItems: BlogIndexItem[],
+	nextItems: BlogIndexItem[],
+	originalCategories: string[],
+	categories: string[]
+): Promise<void> {
 	const removedSlugs = originalItems.filter(item => !nextItems.some(next => next.slug === item.slug)).map(item => item.slug)
 	const uniqueRemoved = Array.from(new Set(removedSlugs.filter(Boolean)))
 
-	const token = await getAuthToken()
-
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
+	await requireRole('editor', '批量编辑文章')
 
-	const treeItems: TreeItem[] = []
+	const changeset = new Changeset()
 
 	for (const slug of uniqueRemoved) {
-		toast.info(`正在收集 ${slug} 文件...`)
-		const basePath = `public/blogs/${slug}`
-		const files = await listRepoFilesRecursive(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, basePath, GITHUB_CONFIG.BRANCH)
-
-		for (const path of files) {
-			treeItems.push({
-				path,
-				mode: '100644',
-				type: 'blob',
-				sha: null
-			})
-		}
+		changeset.deleteDirectory(`public/blogs/${slug}`)
 	}
 
-	toast.info('正在更新索引...')
-	const sortedItems = [...nextItems].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-	const indexJson = JSON.stringify(sortedItems, null, 2)
-	const indexBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(indexJson), 'base64')
-	treeItems.push({
-		path: 'public/blogs/index.json',
-		mode: '100644',
-		type: 'blob',
-		sha: indexBlob.sha
-	})
+	changeset.addComputedFiles(ref => mergeBlogsIndexEdits(changeset.store, originalItems, nextItems, ref))
 
-	toast.info('正在更新分类...')
 	const uniqueCategories = Array.from(new Set(categories.map(c => c.trim()).filter(Boolean)))
-	const categoriesJson = JSON.stringify({ categories: uniqueCategories }, null, 2)
-	const categoriesBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(categoriesJson), 'base64')
-	treeItems.push({
-		path: 'public/blogs/categories.json',
-		mode: '100644',
-		type: 'blob',
-		sha: categoriesBlob.sha
-	})
+	// 与索引一样基于最新提交合并，重试时不会覆盖其他人对分类的修改
+	changeset.addComputedTextFile(BLOG_CATEGORIES_PATH, ref => prepareBlogCategories(changeset.store, originalCategories, uniqueCategories, ref))
 
-	toast.info('正在创建提交...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
 	const actionLabels: string[] = []
 	if (uniqueRemoved.length > 0) {
 		actionLabels.push(`删除:${uniqueRemoved.join(',')}`)
@@ -63,12 +35,9 @@ export async function saveBlogEdits(originalItems: BlogIndexItem[], nextItems: B
 	if (uniqueCategories.length > 0) {
 		actionLabels.push('更新分类')
 	}
-	const commitLabel = actionLabels.join(' | ')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitLabel, treeData.sha, [latestCommitSha])
-
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+	const originalMap = new Map(originalItems.map(item => [item.slug, item]))
+	const editedSlugs = nextItems.filter(item => JSON.stringify(originalMap.get(item.slug)) !== JSON.stringify(item)).map(item => item.slug)
+	await changeset.commit(actionLabels.join(' | '), { operation: 'blog.index-edit', slugs: [...uniqueRemoved, ...editedSlugs] })
 
 	toast.success('保存成功！请等待页面部署后刷新')
 }
-
@@ -7,6 +7,8 @@ export type BlogIndexItem = {
 	cover?: string
 	hidden?: boolean
 	category?: string
+	// 发布者的 GitHub 账号，作者角色只能修改自己的文章
+	author?: string
 }
 
 export type BlogConfig = {
@@ -17,5 +19,9 @@ export type BlogConfig = {
 	cover?: string
 	hidden?: boolean
 	category?: string
+	// 同 BlogIndexItem.author
+	author?: string
+	// 最后一次编辑发布的时间，新文章不写入
+	updatedAt?: string
 }
 
@@ -82,6 +82,7 @@ export default function Page() {
 		try {
 			await pushBloggers({
 				bloggers,
+				originalBloggers,
 				avatarItems
 			})
 
@@ -1,9 +1,11 @@
+import 'katex/dist/katex.min.css'
 import '@/styles/globals.css'
 
 import type { Metadata } from 'next'
 import Layout from '@/layout'
 import Head from '@/layout/head'
 import siteContent from '@/config/site-content.json'
+import { SITE_ORIGIN } from '@/consts'
 
 const {
 	meta: { title, description },
@@ -11,9 +13,11 @@ const {
 } = siteContent
 
 export const metadata: Metadata = {
+	metadataBase: new URL(SITE_ORIGIN),
 	title,
 	description,
 	openGraph: {
+		siteName: title,
 		title,
 		description
 	},
@@ -180,6 +180,7 @@ export default function Page() {
 		try {
 			await pushPictures({
 				pictures,
+				originalPictures,
 				imageItems
 			})
 
@@ -1,147 +1,73 @@
-import { toBase64Utf8, getRef, createTree, createCommit, updateRef, createBlob, readTextFileFromRepo, type TreeItem } from '@/lib/github-client'
-import { fileToBase64NoPrefix, hashFileSHA256 } from '@/lib/file-utils'
-import { getAuthToken } from '@/lib/auth'
-import { GITHUB_CONFIG } from '@/consts'
+import { hashFileSHA256 } from '@/lib/file-utils'
+import { Changeset, type ComputedFiles } from '@/lib/changeset'
+import { mergeListEdits, readJsonFile } from '@/lib/list-merge'
+import { requireRole } from '@/lib/permissions'
 import type { ImageItem } from '../../projects/components/image-upload-dialog'
 import { getFileExt } from '@/lib/utils'
 import { toast } from 'sonner'
 import { Picture } from '../page'
 
+const LIST_PATH = 'src/app/pictures/list.json'
+
+const getPictureUrls = (picture: Picture): string[] => [...(picture.image ? [picture.image] : []), ...(picture.images ?? [])]
+
 export type PushPicturesParams = {
 	pictures: Picture[]
+	// 编辑开始时的列表，提交时据此把本地修改合并到最新的 list.json
+	originalPictures: Picture[]
 	imageItems?: Map<string, ImageItem>
 }
 
 export async function pushPictures(params: PushPicturesParams): Promise<void> {
-	const { pictures, imageItems } = params
+	const { pictures, originalPictures, imageItems } = params
 
-	const token = await getAuthToken()
+	await requireRole('editor', '更新图床')
 
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
+	const changeset = new Changeset()
 
-	const commitMessage = `更新图床列表`
+	let updatedPictures = [...pictures]
 
-	toast.info('正在准备文件...')
+	for (const [key, imageItem] of imageItems?.entries() ?? []) {
+		if (imageItem.type !== 'file') continue
 
-	const treeItems: TreeItem[] = []
-	const uploadedHashes = new Set<string>()
-	let updatedPictures = [...pictures]
+		const hash = imageItem.hash || (await hashFileSHA256(imageItem.file))
+		const filename = `${hash}${getFileExt(imageItem.file.name)}`
+		const publicPath = `/images/pictures/${filename}`
+		changeset.addBinaryFile(`public/images/pictures/${filename}`, imageItem.file)
 
-	if (imageItems && imageItems.size > 0) {
-		toast.info('正在上传图片...')
-		for (const [key, imageItem] of imageItems.entries()) {
-			if (imageItem.type === 'file') {
-				const hash = imageItem.hash || (await hashFileSHA256(imageItem.file))
-				const ext = getFileExt(imageItem.file.name)
-				const filename = `${hash}${ext}`
-				const publicPath = `/images/pictures/${filename}`
-
-				if (!uploadedHashes.has(hash)) {
-					const path = `public/images/pictures/${filename}`
-					const contentBase64 = await fileToBase64NoPrefix(imageItem.file)
-					const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-					treeItems.push({
-						path,
-						mode: '100644',
-						type: 'blob',
-						sha: blobData.sha
-					})
-					uploadedHashes.add(hash)
-				}
-
-				const [groupId, indexStr] = key.split('::')
-				const imageIndex = Number(indexStr) || 0
-
-				updatedPictures = updatedPictures.map(p => {
-					if (p.id !== groupId) return p
-
-					const currentImages = p.images && p.images.length > 0 ? p.images : p.image ? [p.image] : []
-
-					const nextImages = currentImages.map((img, idx) => (idx === imageIndex ? publicPath : img))
-
-					return {
-						...p,
-						image: undefined,
-						images: nextImages
-					}
-				})
-			}
-		}
-	}
+		const [groupId, indexStr] = key.split('::')
+		const imageIndex = Number(indexStr) || 0
 
-	// 收集当前所有使用的图片 URL
-	const currentImageUrls = new Set<string>()
-	for (const picture of updatedPictures) {
-		if (picture.image) {
-			currentImageUrls.add(picture.image)
-		}
-		if (picture.images && picture.images.length > 0) {
-			picture.images.forEach(url => currentImageUrls.add(url))
-		}
-	}
+		updatedPictures = updatedPictures.map(p => {
+			if (p.id !== groupId) return p
 
-	// 读取之前的 list.json，找出不再使用的图片文件
-	toast.info('正在检查需要删除的文件...')
-	const previousListJson = await readTextFileFromRepo(
-		token,
-		GITHUB_CONFIG.OWNER,
-		GITHUB_CONFIG.REPO,
-		'src/app/pictures/list.json',
-		GITHUB_CONFIG.BRANCH
-	)
-
-	if (previousListJson) {
-		try {
-			const previousPictures: Picture[] = JSON.parse(previousListJson)
-			const previousImageUrls = new Set<string>()
-			
-			for (const picture of previousPictures) {
-				if (picture.image) {
-					previousImageUrls.add(picture.image)
-				}
-				if (picture.images && picture.images.length > 0) {
-					picture.images.forEach(url => previousImageUrls.add(url))
-				}
-			}
+			const currentImages = p.images && p.images.length > 0 ? p.images : p.image ? [p.image] : []
+
+			const nextImages = currentImages.map((img, idx) => (idx === imageIndex ? publicPath : img))
 
-			// 找出不再使用的图片 URL
-			for (const url of previousImageUrls) {
-				if (!currentImageUrls.has(url) && url.startsWith('/images/pictures/')) {
-					// 这是一个本地图片文件，需要删除
-					const filename = url.replace('/images/pictures/', '')
-					const path = `public/images/pictures/${filename}`
-					treeItems.push({
-						path,
-						mode: '100644',
-						type: 'blob',
-						sha: null
-					})
-				}
+			return {
+				...p,
+				image: undefined,
+				images: nextImages
 			}
-		} catch (error) {
-			console.error('Failed to parse previous list.json:', error)
-		}
+		})
 	}
 
-	const picturesJson = JSON.stringify(updatedPictures, null, '\t')
-	const picturesBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(picturesJson), 'base64')
-	treeItems.push({
-		path: 'src/app/pictures/list.json',
-		mode: '100644',
-		type: 'blob',
-		sha: picturesBlob.sha
-	})
-
-	toast.info('正在创建文件树...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
+	// 基于最新的 list.json 合并，并删除合并后不再使用的本地图片文件
+	changeset.addComputedFiles(async ref => {
+		const latest = (await readJsonFile<Picture[]>(changeset.store, LIST_PATH, ref)) ?? []
+		const merged = mergeListEdits(originalPictures, updatedPictures, latest, picture => picture.id)
+		const files: ComputedFiles = { [LIST_PATH]: JSON.stringify(merged, null, '\t') }
 
-	toast.info('正在创建提交...')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitMessage, treeData.sha, [latestCommitSha])
-
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+		const usedImageUrls = new Set(merged.flatMap(getPictureUrls))
+		for (const url of latest.flatMap(getPictureUrls)) {
+			if (!usedImageUrls.has(url) && url.startsWith('/images/pictures/')) {
+				files[`public${url}`] = null
+			}
+		}
+		return files
+	})
+	await changeset.commit(`更新图床列表`, { operation: 'pictures.update' })
 
 	toast.success('发布成功！')
 }
@@ -81,6 +81,7 @@ export default function Page() {
 		try {
 			await pushProjects({
 				projects,
+				originalProjects,
 				imageItems
 			})
 
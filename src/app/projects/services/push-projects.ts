@@ -1,79 +1,46 @@
-import { toBase64Utf8, getRef, createTree, createCommit, updateRef, createBlob, type TreeItem } from '@/lib/github-client'
-import { fileToBase64NoPrefix, hashFileSHA256 } from '@/lib/file-utils'
-import { getAuthToken } from '@/lib/auth'
-import { GITHUB_CONFIG } from '@/consts'
+import { hashFileSHA256 } from '@/lib/file-utils'
+import { Changeset } from '@/lib/changeset'
+import { mergeListEdits, readJsonFile } from '@/lib/list-merge'
+import { requireRole } from '@/lib/permissions'
 import type { Project } from '../components/project-card'
 import type { ImageItem } from '../components/image-upload-dialog'
 import { getFileExt } from '@/lib/utils'
 import { toast } from 'sonner'
 
+const LIST_PATH = 'src/app/projects/list.json'
+
 export type PushProjectsParams = {
 	projects: Project[]
+	// 编辑开始时的列表，提交时据此把本地修改合并到最新的 list.json
+	originalProjects: Project[]
 	imageItems?: Map<string, ImageItem>
 }
 
 export async function pushProjects(params: PushProjectsParams): Promise<void> {
-	const { projects, imageItems } = params
-
-	const token = await getAuthToken()
+	const { projects, originalProjects, imageItems } = params
 
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
+	await requireRole('editor', '更新项目列表')
 
-	const commitMessage = `更新项目列表`
+	const changeset = new Changeset()
 
-	toast.info('正在准备文件...')
-
-	const treeItems: TreeItem[] = []
-	const uploadedHashes = new Set<string>()
 	let updatedProjects = [...projects]
 
-	if (imageItems && imageItems.size > 0) {
-		toast.info('正在上传图片...')
-		for (const [url, imageItem] of imageItems.entries()) {
-			if (imageItem.type === 'file') {
-				const hash = imageItem.hash || (await hashFileSHA256(imageItem.file))
-				const ext = getFileExt(imageItem.file.name)
-				const filename = `${hash}${ext}`
-				const publicPath = `/images/project/${filename}`
+	for (const [url, imageItem] of imageItems?.entries() ?? []) {
+		if (imageItem.type !== 'file') continue
 
-				if (!uploadedHashes.has(hash)) {
-					const path = `public/images/project/${filename}`
-					const contentBase64 = await fileToBase64NoPrefix(imageItem.file)
-					const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-					treeItems.push({
-						path,
-						mode: '100644',
-						type: 'blob',
-						sha: blobData.sha
-					})
-					uploadedHashes.add(hash)
-				}
+		const hash = imageItem.hash || (await hashFileSHA256(imageItem.file))
+		const filename = `${hash}${getFileExt(imageItem.file.name)}`
+		changeset.addBinaryFile(`public/images/project/${filename}`, imageItem.file)
 
-				updatedProjects = updatedProjects.map(p => (p.url === url ? { ...p, image: publicPath } : p))
-			}
-		}
+		updatedProjects = updatedProjects.map(p => (p.url === url ? { ...p, image: `/images/project/${filename}` } : p))
 	}
 
-	const projectsJson = JSON.stringify(updatedProjects, null, '\t')
-	const projectsBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(projectsJson), 'base64')
-	treeItems.push({
-		path: 'src/app/projects/list.json',
-		mode: '100644',
-		type: 'blob',
-		sha: projectsBlob.sha
+	changeset.addComputedTextFile(LIST_PATH, async ref => {
+		const latest = (await readJsonFile<Project[]>(changeset.store, LIST_PATH, ref)) ?? []
+		const merged = mergeListEdits(originalProjects, updatedProjects, latest, project => project.url)
+		return JSON.stringify(merged, null, '\t')
 	})
-
-	toast.info('正在创建文件树...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
-
-	toast.info('正在创建提交...')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitMessage, treeData.sha, [latestCommitSha])
-
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+	await changeset.commit(`更新项目列表`, { operation: 'projects.update' })
 
 	toast.success('发布成功！')
 }
-
@@ -2,17 +2,15 @@ import fs from 'node:fs'
 import path from 'node:path'
 
 import siteContent from '@/config/site-content.json'
-import blogIndex from '@/../public/blogs/index.json'
 import type { BlogIndexItem } from '@/app/blog/types'
+import { getPublishTime, isScheduledPost } from '@/lib/blog-schedule'
+import { readBlogIndex } from '@/lib/blog-index-server'
+import { SITE_ORIGIN } from '@/consts'
 
-const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.yysuni.com'
 const FEED_PATH = '/rss.xml'
-const SITE_ORIGIN = SITE_URL.replace(/\/$/, '')
 const FEED_URL = `${SITE_ORIGIN}${FEED_PATH}`
 const PUBLIC_DIR = path.join(process.cwd(), 'public')
 
-const blogs = blogIndex as BlogIndexItem[]
-
 const escapeXml = (value: string): string =>
 	value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
 
@@ -66,7 +64,7 @@ const serializeItem = (item: BlogIndexItem): string => {
 	const link = `${SITE_ORIGIN}/blog/${item.slug}`
 	const title = escapeXml(item.title || item.slug)
 	const description = wrapCdata(item.summary || '')
-	const pubDate = new Date(item.date).toUTCString()
+	const pubDate = new Date(getPublishTime(item)).toUTCString()
 	const categories = (item.tags || [])
 		.filter(Boolean)
 		.map(tag => `<category>${escapeXml(tag)}</category>`)
@@ -87,14 +85,18 @@ const serializeItem = (item: BlogIndexItem): string => {
 }
 
 export const dynamic = 'force-static'
-export const revalidate = false
+// 定期重新生成，让定时文章到期后出现在订阅中
+export const revalidate = 3600
 
-export function GET(): Response {
+export async function GET(): Promise<Response> {
 	const title = siteContent.meta?.title || '2025 Blog'
 	const description = siteContent.meta?.description || 'Latest updates from 2025 Blog'
 
+	const now = Date.now()
+	const blogs = await readBlogIndex(SITE_ORIGIN)
+	// 只排除未到发布时间的定时文章，隐藏文章仍然输出
 	const items = blogs
-		.filter(item => item?.slug)
+		.filter(item => item?.slug && !isScheduledPost(item, now))
 		.map(serializeItem)
 		.join('')
 
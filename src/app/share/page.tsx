@@ -83,6 +83,7 @@ export default function Page() {
 		try {
 			await pushShares({
 				shares,
+				originalShares,
 				logoItems
 			})
 
@@ -1,8 +1,11 @@
 import { MetadataRoute } from 'next'
-import blogIndex from '@/../public/blogs/index.json'
 import type { BlogIndexItem } from '@/app/blog/types'
+import { getPublishTime, isPublicPost } from '@/lib/blog-schedule'
+import { readBlogIndex } from '@/lib/blog-index-server'
 
 export const dynamic = 'force-static'
+// 定期重新生成，让定时文章到期后进入站点地图
+export const revalidate = 3600
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 	// 域名配置：
@@ -13,11 +16,12 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 
 	console.log(`[Sitemap] Generating for: ${baseUrl}`)
 
-	let posts: BlogIndexItem[] = blogIndex
+	const now = Date.now()
+	let posts: BlogIndexItem[] = (await readBlogIndex(baseUrl)).filter(post => isPublicPost(post, now))
 
 	const postEntries: MetadataRoute.Sitemap = posts.map(post => ({
 		url: `${baseUrl}/blog/${post.slug}`,
-		lastModified: post.date ? new Date(post.date) : new Date(),
+		lastModified: post.date ? new Date(getPublishTime(post)) : new Date(),
 		changeFrequency: 'weekly',
 		priority: 0.8
 	}))
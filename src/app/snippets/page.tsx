@@ -44,7 +44,7 @@ export default function Page() {
 	const handleSave = async () => {
 		setIsSaving(true)
 		try {
-			await pushSnippets({ snippets })
+			await pushSnippets({ snippets, originalSnippets })
 			setOriginalSnippets(snippets)
 			setIsEditMode(false)
 			toast.success('保存成功！')
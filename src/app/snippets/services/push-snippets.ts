@@ -1,46 +1,29 @@
-import { toBase64Utf8, getRef, createTree, createCommit, updateRef, createBlob, type TreeItem } from '@/lib/github-client'
-import { getAuthToken } from '@/lib/auth'
-import { GITHUB_CONFIG } from '@/consts'
+import { Changeset } from '@/lib/changeset'
+import { mergeListEdits, readJsonFile } from '@/lib/list-merge'
+import { requireRole } from '@/lib/permissions'
 import { toast } from 'sonner'
 
+const LIST_PATH = 'src/app/snippets/list.json'
+
 export type PushSnippetsParams = {
 	snippets: string[]
+	// 编辑开始时的列表，提交时据此把本地修改合并到最新的 list.json
+	originalSnippets: string[]
 }
 
 export async function pushSnippets(params: PushSnippetsParams): Promise<void> {
-	const { snippets } = params
-
-	const token = await getAuthToken()
-
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
+	const { snippets, originalSnippets } = params
 
-	const commitMessage = `更新句子列表`
+	await requireRole('editor', '更新句子列表')
 
-	toast.info('正在准备文件...')
+	const changeset = new Changeset()
 
-	const treeItems: TreeItem[] = []
-
-	const snippetsJson = JSON.stringify(snippets, null, '\t')
-	const snippetsBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(snippetsJson), 'base64')
-	treeItems.push({
-		path: 'src/app/snippets/list.json',
-		mode: '100644',
-		type: 'blob',
-		sha: snippetsBlob.sha
+	changeset.addComputedTextFile(LIST_PATH, async ref => {
+		const latest = (await readJsonFile<string[]>(changeset.store, LIST_PATH, ref)) ?? []
+		const merged = mergeListEdits(originalSnippets, snippets, latest, snippet => snippet)
+		return JSON.stringify(merged, null, '\t')
 	})
-
-	toast.info('正在创建文件树...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
-
-	toast.info('正在创建提交...')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitMessage, treeData.sha, [latestCommitSha])
-
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+	await changeset.commit(`更新句子列表`, { operation: 'snippets.update' })
 
 	toast.success('发布成功！')
 }
-
-
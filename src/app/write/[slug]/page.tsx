@@ -8,6 +8,8 @@ import { WriteEditor } from '../components/editor'
 import { WriteSidebar } from '../components/sidebar'
 import { WriteActions } from '../components/actions'
 import { WritePreview } from '../components/preview'
+import { DraftRestoreDialog } from '../components/draft-restore-dialog'
+import { useDraftAutosave, useDraftRecovery } from '../hooks/use-local-draft'
 
 export default function EditBlogPage() {
 	const params = useParams() as { slug?: string }
@@ -16,6 +18,8 @@ export default function EditBlogPage() {
 	const { form, cover } = useWriteStore()
 	const { isPreview, closePreview } = usePreviewStore()
 	const { loading } = useLoadBlog(slug)
+	const { pendingDraft, onRestore, onDiscard } = useDraftRecovery(slug, loading)
+	useDraftAutosave()
 
 	const coverPreviewUrl = cover ? (cover.type === 'url' ? cover.url : cover.previewUrl) : null
 
@@ -37,6 +41,7 @@ export default function EditBlogPage() {
 			</div>
 
 			<WriteActions />
+			<DraftRestoreDialog draft={pendingDraft} onRestore={onRestore} onDiscard={onDiscard} />
 		</>
 	)
 }
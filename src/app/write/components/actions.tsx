@@ -5,12 +5,20 @@ import { useRouter } from 'next/navigation'
 import { useWriteStore } from '../stores/write-store'
 import { usePreviewStore } from '../stores/preview-store'
 import { usePublish } from '../hooks/use-publish'
+import { ConflictDialog } from './conflict-dialog'
+import { RateLimitBadge } from '@/components/rate-limit-badge'
+import { DraftPrStatus } from './draft-pr-status'
+import { HistoryDialog } from './history-dialog'
+import { CONTENT_STORE } from '@/consts'
+import { AuthDialog } from '@/components/auth-dialog'
 
 export function WriteActions() {
-	const { loading, mode, form, loadBlogForEdit, originalSlug, updateForm } = useWriteStore()
+	const { loading, mode, form, loadBlogForEdit, originalSlug, updateForm, publishTarget, setPublishTarget } = useWriteStore()
 	const { openPreview } = usePreviewStore()
-	const { isAuth, onChoosePrivateKey, onPublish, onDelete } = usePublish()
+	const { isAuth, onChoosePrivateKey, onPublish, onDelete, conflictPaths, onDismissConflict, pullRequest, onMergeDraft } = usePublish()
 	const [saving, setSaving] = useState(false)
+	const [historyOpen, setHistoryOpen] = useState(false)
+	const [authOpen, setAuthOpen] = useState(false)
 	const keyInputRef = useRef<HTMLInputElement>(null)
 	const mdInputRef = useRef<HTMLInputElement>(null)
 	const router = useRouter()
@@ -18,9 +26,17 @@ export function WriteActions() {
 	const handleImportOrPublish = () => {
 		if (!isAuth) {
 			keyInputRef.current?.click()
-		} else {
-			onPublish()
+			return
 		}
+		if (mode === 'edit' && originalSlug && originalSlug !== form.slug) {
+			if (!window.confirm(`slug 将从「${originalSlug}」修改为「${form.slug}」，旧链接会自动跳转到新地址。继续吗？`)) return
+		}
+		onPublish()
+	}
+
+	const handleOverwrite = () => {
+		onDismissConflict()
+		onPublish(true)
 	}
 
 	const handleCancel = () => {
@@ -34,7 +50,8 @@ export function WriteActions() {
 		}
 	}
 
-	const buttonText = isAuth ? (mode === 'edit' ? '更新' : '发布') : '导入密钥'
+	const publishText = publishTarget === 'draft' ? '提交审核' : mode === 'edit' ? '更新' : '发布'
+	const buttonText = isAuth ? publishText : '导入密钥'
 
 	const handleDelete = () => {
 		if (!isAuth) {
@@ -47,6 +64,14 @@ export function WriteActions() {
 		}
 	}
 
+	const handleOpenHistory = () => {
+		if (!isAuth) {
+			toast.info('请先导入密钥')
+			return
+		}
+		setHistoryOpen(true)
+	}
+
 	const handleImportMd = () => {
 		mdInputRef.current?.click()
 	}
@@ -82,6 +107,9 @@ export function WriteActions() {
 			<input ref={mdInputRef} type='file' accept='.md' className='hidden' onChange={handleMdFileChange} />
 
 			<ul className='absolute top-4 right-6 flex items-center gap-2'>
+				<RateLimitBadge />
+				<DraftPrStatus pullRequest={pullRequest} loading={loading} onMerge={onMergeDraft} />
+
 				{mode === 'edit' && (
 					<>
 						<motion.div initial={{ opacity: 0, scale: 0.6 }} animate={{ opacity: 1, scale: 1 }} className='flex items-center gap-2'>
@@ -99,6 +127,19 @@ export function WriteActions() {
 							删除
 						</motion.button>
 
+						{CONTENT_STORE === 'github' && (
+							<motion.button
+								initial={{ opacity: 0, scale: 0.6 }}
+								animate={{ opacity: 1, scale: 1 }}
+								whileHover={{ scale: 1.05 }}
+								whileTap={{ scale: 0.95 }}
+								className='bg-card rounded-xl border px-4 py-2 text-sm'
+								disabled={loading}
+								onClick={handleOpenHistory}>
+								历史
+							</motion.button>
+						)}
+
 						<motion.button
 							whileHover={{ scale: 1.05 }}
 							whileTap={{ scale: 0.95 }}
@@ -130,6 +171,32 @@ export function WriteActions() {
 					onClick={openPreview}>
 					预览
 				</motion.button>
+				{CONTENT_STORE === 'github' && (
+					<motion.label
+						initial={{ opacity: 0, scale: 0.6 }}
+						animate={{ opacity: 1, scale: 1 }}
+						className='bg-card flex cursor-pointer items-center gap-2 rounded-xl border px-4 py-2 text-sm select-none'>
+						<input
+							type='checkbox'
+							checked={publishTarget === 'draft'}
+							onChange={e => setPublishTarget(e.target.checked ? 'draft' : 'main')}
+							className='accent-brand h-4 w-4 rounded'
+						/>
+						审核模式
+					</motion.label>
+				)}
+				{CONTENT_STORE === 'github' && !isAuth && (
+					<motion.button
+						initial={{ opacity: 0, scale: 0.6 }}
+						animate={{ opacity: 1, scale: 1 }}
+						whileHover={{ scale: 1.05 }}
+						whileTap={{ scale: 0.95 }}
+						className='bg-card rounded-xl border px-4 py-2 text-sm'
+						disabled={loading}
+						onClick={() => setAuthOpen(true)}>
+						令牌登录
+					</motion.button>
+				)}
 				<motion.button
 					initial={{ opacity: 0, scale: 0.6 }}
 					animate={{ opacity: 1, scale: 1 }}
@@ -141,6 +208,10 @@ export function WriteActions() {
 					{buttonText}
 				</motion.button>
 			</ul>
+
+			<ConflictDialog paths={conflictPaths} onOverwrite={handleOverwrite} onClose={onDismissConflict} />
+			<AuthDialog open={authOpen} onClose={() => setAuthOpen(false)} />
+			{mode === 'edit' && <HistoryDialog open={historyOpen} slug={originalSlug} onClose={() => setHistoryOpen(false)} />}
 		</>
 	)
 }
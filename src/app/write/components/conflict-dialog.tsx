@@ -0,0 +1,31 @@
+'use client'
+
+import { DialogModal } from '@/components/dialog-modal'
+
+interface ConflictDialogProps {
+	paths: string[] | null
+	onOverwrite: () => void
+	onClose: () => void
+}
+
+export function ConflictDialog({ paths, onOverwrite, onClose }: ConflictDialogProps) {
+	return (
+		<DialogModal open={!!paths} onClose={onClose} className='card w-[480px] max-w-[90vw] rounded-2xl p-6'>
+			<div className='mb-3 text-lg font-semibold'>发布冲突</div>
+			<p className='text-secondary mb-3 text-sm'>在你发布期间，其他人修改了同一篇文章。继续发布会覆盖对方的修改：</p>
+			<ul className='bg-secondary/10 mb-6 space-y-1 rounded-lg p-3 font-mono text-xs'>
+				{paths?.map(path => (
+					<li key={path}>{path}</li>
+				))}
+			</ul>
+			<div className='flex justify-end gap-2'>
+				<button onClick={onClose} className='bg-card rounded-xl border px-4 py-2 text-sm'>
+					取消
+				</button>
+				<button onClick={onOverwrite} className='rounded-xl border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-600 transition-colors hover:bg-red-100'>
+					覆盖并发布
+				</button>
+			</div>
+		</DialogModal>
+	)
+}
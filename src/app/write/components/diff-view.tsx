@@ -0,0 +1,50 @@
+'use client'
+
+import { useMemo } from 'react'
+import { diffLines, toHunks } from '@/lib/text-diff'
+import { cn } from '@/lib/utils'
+
+interface DiffViewProps {
+	title: string
+	oldText: string
+	newText: string
+}
+
+export function DiffView({ title, oldText, newText }: DiffViewProps) {
+	const hunks = useMemo(() => toHunks(diffLines(oldText, newText)), [oldText, newText])
+	const unchanged = oldText === newText
+
+	return (
+		<div className='overflow-hidden rounded-xl border'>
+			<div className='bg-secondary/10 border-b px-3 py-2 font-mono text-xs'>{title}</div>
+			{unchanged ? (
+				<div className='text-secondary px-3 py-4 text-center text-xs'>无改动</div>
+			) : (
+				<div className='overflow-x-auto font-mono text-xs leading-5'>
+					{hunks.map((hunk, index) =>
+						hunk.type === 'skip' ? (
+							<div key={index} className='text-secondary bg-secondary/5 px-3 py-1 text-center'>
+								… {hunk.count} 行未修改 …
+							</div>
+						) : (
+							hunk.lines.map((line, lineIndex) => (
+								<div
+									key={`${index}-${lineIndex}`}
+									className={cn(
+										'flex whitespace-pre',
+										line.type === 'add' && 'bg-green-50 text-green-700',
+										line.type === 'remove' && 'bg-red-50 text-red-600'
+									)}>
+									<span className='text-secondary w-10 shrink-0 px-2 text-right select-none'>{line.oldNo ?? ''}</span>
+									<span className='text-secondary w-10 shrink-0 px-2 text-right select-none'>{line.newNo ?? ''}</span>
+									<span className='w-4 shrink-0 select-none'>{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+									<span className='pr-3'>{line.text}</span>
+								</div>
+							))
+						)
+					)}
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,42 @@
+'use client'
+
+import { motion } from 'motion/react'
+import type { DraftPullRequest } from '../services/draft-pr'
+
+interface DraftPrStatusProps {
+	pullRequest: DraftPullRequest | null
+	loading: boolean
+	onMerge: () => void
+}
+
+const getStatusLabel = (pr: DraftPullRequest): string => {
+	if (pr.indexPending) return '已合并，索引未更新'
+	if (pr.merged) return '已合并'
+	if (pr.state === 'closed') return '已关闭'
+	if (pr.mergeable === false) return '有冲突'
+	return '待审核'
+}
+
+export function DraftPrStatus({ pullRequest, loading, onMerge }: DraftPrStatusProps) {
+	if (!pullRequest) return null
+
+	const canMerge = pullRequest.state === 'open' && pullRequest.mergeable !== false
+
+	return (
+		<motion.div initial={{ opacity: 0, scale: 0.6 }} animate={{ opacity: 1, scale: 1 }} className='flex items-center gap-2'>
+			<a href={pullRequest.htmlUrl} target='_blank' rel='noreferrer' className='rounded-lg border bg-amber-50 px-4 py-2 text-sm text-amber-700 hover:underline'>
+				PR #{pullRequest.number} · {getStatusLabel(pullRequest)}
+			</a>
+			{(canMerge || pullRequest.indexPending) && (
+				<motion.button
+					whileHover={{ scale: 1.05 }}
+					whileTap={{ scale: 0.95 }}
+					className='rounded-xl border border-green-200 bg-green-50 px-4 py-2 text-sm text-green-700 transition-colors hover:bg-green-100'
+					disabled={loading}
+					onClick={onMerge}>
+					{pullRequest.indexPending ? '更新索引' : '合并'}
+				</motion.button>
+			)}
+		</motion.div>
+	)
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import dayjs from 'dayjs'
+import { DialogModal } from '@/components/dialog-modal'
+import type { LocalDraft } from '../services/local-drafts'
+
+interface DraftRestoreDialogProps {
+	draft: LocalDraft | null
+	onRestore: () => void
+	onDiscard: () => void
+}
+
+export function DraftRestoreDialog({ draft, onRestore, onDiscard }: DraftRestoreDialogProps) {
+	const imageCount = draft?.images.filter(img => img.type === 'file').length ?? 0
+
+	return (
+		<DialogModal open={!!draft} onClose={onDiscard} disableCloseOnOverlay className='card w-[420px] max-w-[90vw] rounded-2xl p-6'>
+			<div className='mb-3 text-lg font-semibold'>发现本地草稿</div>
+			<p className='text-secondary mb-6 text-sm'>
+				这篇文章有一份 {draft ? dayjs(draft.updatedAt).format('YYYY-MM-DD HH:mm') : ''} 保存的未发布修改
+				{imageCount > 0 ? `（含 ${imageCount} 张本地图片）` : ''}，是否恢复？
+			</p>
+			<div className='flex justify-end gap-2'>
+				<button onClick={onDiscard} className='bg-card rounded-xl border px-4 py-2 text-sm'>
+					丢弃
+				</button>
+				<button onClick={onRestore} className='brand-btn px-4'>
+					恢复草稿
+				</button>
+			</div>
+		</DialogModal>
+	)
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import dayjs from 'dayjs'
+import { DialogModal } from '@/components/dialog-modal'
+import { cn } from '@/lib/utils'
+import { usePostHistory, usePostRevision } from '../hooks/use-post-history'
+import { DiffView } from './diff-view'
+
+interface HistoryDialogProps {
+	open: boolean
+	slug: string | null
+	onClose: () => void
+}
+
+export function HistoryDialog({ open, slug, onClose }: HistoryDialogProps) {
+	const { commits, loading, restoring, restore } = usePostHistory(slug, open)
+	// from: 选中查看的版本，to: 对比的目标版本（默认最新）
+	const [fromSha, setFromSha] = useState<string | null>(null)
+	const [toSha, setToSha] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (commits.length === 0) return
+		setToSha(prev => (prev && commits.some(c => c.sha === prev) ? prev : commits[0].sha))
+		setFromSha(prev => (prev && commits.some(c => c.sha === prev) ? prev : (commits[1] ?? commits[0]).sha))
+	}, [commits])
+
+	const { revision: fromRevision, loading: fromLoading } = usePostRevision(open ? slug : null, fromSha)
+	const { revision: toRevision, loading: toLoading } = usePostRevision(open ? slug : null, toSha)
+
+	const handleRestore = async () => {
+		if (!fromSha) return
+		if (!window.confirm(`确定将文章恢复到 ${fromSha.slice(0, 7)} 吗？将作为一次新的提交发布。`)) return
+		await restore(fromSha)
+	}
+
+	return (
+		<DialogModal open={open} onClose={onClose} className='card flex h-[80vh] w-[1000px] max-w-[95vw] flex-col rounded-2xl p-6'>
+			<div className='mb-4 flex items-center justify-between'>
+				<div className='text-lg font-semibold'>历史版本</div>
+				<div className='flex items-center gap-2 text-sm'>
+					<span className='text-secondary'>对比</span>
+					<select value={toSha ?? ''} onChange={e => setToSha(e.target.value)} className='bg-card rounded-lg border px-2 py-1 font-mono text-xs'>
+						{commits.map(commit => (
+							<option key={commit.sha} value={commit.sha}>
+								{commit.sha.slice(0, 7)} {dayjs(commit.date).format('YYYY-MM-DD HH:mm')}
+							</option>
+						))}
+					</select>
+				</div>
+			</div>
+
+			<div className='flex min-h-0 flex-1 gap-4'>
+				<ul className='w-64 shrink-0 space-y-1 overflow-y-auto'>
+					{loading && <li className='text-secondary text-sm'>加载中...</li>}
+					{!loading && commits.length === 0 && <li className='text-secondary text-sm'>暂无历史记录</li>}
+					{commits.map(commit => (
+						<li key={commit.sha}>
+							<button
+								onClick={() => setFromSha(commit.sha)}
+								className={cn(
+									'w-full rounded-lg border px-3 py-2 text-left transition-colors',
+									commit.sha === fromSha ? 'border-brand bg-brand/10' : 'hover:bg-secondary/10'
+								)}>
+								<div className='truncate text-sm'>{commit.message.split('\n')[0]}</div>
+								<div className='text-secondary mt-1 flex justify-between text-xs'>
+									<span>{commit.author}</span>
+									<span className='font-mono'>{commit.sha.slice(0, 7)}</span>
+								</div>
+								<div className='text-secondary text-xs'>{dayjs(commit.date).format('YYYY-MM-DD HH:mm')}</div>
+							</button>
+						</li>
+					))}
+				</ul>
+
+				<div className='min-w-0 flex-1 space-y-4 overflow-y-auto'>
+					{fromLoading || toLoading ? (
+						<div className='text-secondary text-sm'>加载中...</div>
+					) : fromRevision && toRevision ? (
+						<>
+							<DiffView title='config.json' oldText={fromRevision.files.config} newText={toRevision.files.config} />
+							<DiffView title='index.md' oldText={fromRevision.files.markdown} newText={toRevision.files.markdown} />
+						</>
+					) : null}
+				</div>
+			</div>
+
+			<div className='mt-4 flex justify-end gap-2'>
+				<button onClick={onClose} className='bg-card rounded-xl border px-4 py-2 text-sm'>
+					关闭
+				</button>
+				<button onClick={handleRestore} disabled={!fromSha || restoring} className='brand-btn px-4'>
+					{restoring ? '恢复中...' : '恢复此版本'}
+				</button>
+			</div>
+		</DialogModal>
+	)
+}
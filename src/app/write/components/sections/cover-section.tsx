@@ -1,8 +1,10 @@
 'use client'
 
-import { useRef } from 'react'
+import { useRef, useState } from 'react'
 import { motion } from 'motion/react'
 import { toast } from 'sonner'
+import { ImagePlus } from 'lucide-react'
+import { renderOgCover } from '@/lib/og-cover'
 import { useWriteStore } from '../../stores/write-store'
 
 type CoverSectionProps = {
@@ -10,8 +12,9 @@ type CoverSectionProps = {
 }
 
 export function CoverSection({ delay = 0 }: CoverSectionProps) {
-	const { images, setCover, cover, addFiles } = useWriteStore()
+	const { images, setCover, cover, addFiles, form } = useWriteStore()
 	const fileInputRef = useRef<HTMLInputElement>(null)
+	const [generating, setGenerating] = useState(false)
 
 	const coverPreviewUrl = cover ? (cover.type === 'url' ? cover.url : cover.previewUrl) : null
 
@@ -78,9 +81,42 @@ export function CoverSection({ delay = 0 }: CoverSectionProps) {
 		e.target.value = ''
 	}
 
+	// 按标题、标签和日期在浏览器中绘制分享图，作为普通图片加入列表并设为封面
+	const handleGenerate = async () => {
+		if (!form.title.trim()) {
+			toast.error('请先填写标题')
+			return
+		}
+
+		try {
+			setGenerating(true)
+			const blob = await renderOgCover({ title: form.title.trim(), tags: form.tags, date: form.date })
+			const file = new File([blob], `${form.slug || 'cover'}-og.png`, { type: 'image/png' })
+			const resultImages = await addFiles([file])
+			if (resultImages.length > 0) {
+				setCover(resultImages[0])
+				toast.success('已生成封面')
+			}
+		} catch (error: any) {
+			toast.error(error?.message || '生成封面失败')
+		} finally {
+			setGenerating(false)
+		}
+	}
+
 	return (
 		<motion.div initial={{ opacity: 0, scale: 0.8 }} animate={{ opacity: 1, scale: 1 }} transition={{ delay }} className='card relative'>
-			<h2 className='text-sm'>封面</h2>
+			<div className='flex items-center justify-between'>
+				<h2 className='text-sm'>封面</h2>
+				<button
+					type='button'
+					onClick={handleGenerate}
+					disabled={generating}
+					className='text-secondary hover:text-brand flex items-center gap-1 text-xs disabled:opacity-50'>
+					<ImagePlus className='size-3.5' />
+					{generating ? '生成中...' : '生成封面'}
+				</button>
+			</div>
 			<input ref={fileInputRef} type='file' accept='image/*' className='hidden' onChange={handleFileChange} />
 			<div
 				className='bg-card mt-3 h-[150px] overflow-hidden rounded-xl border'
@@ -0,0 +1,69 @@
+'use client'
+
+import useSWR from 'swr'
+import dayjs from 'dayjs'
+import { motion } from 'motion/react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { useWriteStore } from '../../stores/write-store'
+import { deleteLocalDraft, getLocalDraftKey, listLocalDrafts, type LocalDraft } from '../../services/local-drafts'
+import { LOCAL_DRAFTS_KEY } from '../../hooks/use-local-draft'
+
+type DraftsSectionProps = {
+	delay?: number
+}
+
+export function DraftsSection({ delay = 0 }: DraftsSectionProps) {
+	const { mode, originalSlug, draftId, restoreDraft } = useWriteStore()
+	const { data: drafts = [], mutate } = useSWR(LOCAL_DRAFTS_KEY, listLocalDrafts, { revalidateOnFocus: false })
+	const router = useRouter()
+
+	const currentKey = getLocalDraftKey(mode, originalSlug, draftId)
+
+	if (drafts.length === 0) return null
+
+	const handleOpen = (draft: LocalDraft) => {
+		if (draft.mode === 'edit' && draft.originalSlug) {
+			// 打开文章后会提示恢复草稿
+			router.push(`/write/${encodeURIComponent(draft.originalSlug)}`)
+			return
+		}
+		restoreDraft(draft)
+		toast.success('已恢复本地草稿')
+	}
+
+	const handleDelete = async (draft: LocalDraft) => {
+		if (!window.confirm(`删除草稿《${draft.form.title || '无标题'}》吗？`)) return
+		await deleteLocalDraft(draft.key)
+		mutate()
+	}
+
+	return (
+		<motion.div initial={{ opacity: 0, scale: 0.8 }} animate={{ opacity: 1, scale: 1 }} transition={{ delay }} className='card relative'>
+			<h2 className='text-sm'>本地草稿</h2>
+
+			<ul className='mt-3 max-h-60 space-y-2 overflow-y-auto'>
+				{drafts.map(draft => (
+					<li key={draft.key} className='bg-card flex items-center gap-2 rounded-lg border px-3 py-2 text-xs'>
+						<div className='min-w-0 flex-1'>
+							<div className='truncate text-sm'>{draft.form.title || '无标题'}</div>
+							<div className='text-secondary mt-0.5'>
+								{draft.mode === 'edit' ? `编辑 ${draft.originalSlug}` : '新文章'} · {dayjs(draft.updatedAt).format('MM-DD HH:mm')}
+							</div>
+						</div>
+						{draft.key === currentKey ? (
+							<span className='text-secondary'>当前</span>
+						) : (
+							<button className='rounded-md border px-2 py-1 hover:bg-white' onClick={() => handleOpen(draft)}>
+								打开
+							</button>
+						)}
+						<button className='rounded-md border px-2 py-1 text-red-600 hover:bg-red-50' onClick={() => handleDelete(draft)}>
+							删除
+						</button>
+					</li>
+				))}
+			</ul>
+		</motion.div>
+	)
+}
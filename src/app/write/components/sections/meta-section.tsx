@@ -4,6 +4,9 @@ import { TagInput } from '../ui/tag-input'
 import { useCategories } from '@/hooks/use-categories'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
 import { Select } from '@/components/select'
+import { ScheduledBadge } from '@/app/blog/components/scheduled-badge'
+import { isScheduledPost } from '@/lib/blog-schedule'
+import { SITE_TIMEZONE } from '@/consts'
 
 type MetaSectionProps = {
 	delay?: number
@@ -45,6 +48,12 @@ export function MetaSection({ delay = 0 }: MetaSectionProps) {
 						updateForm({ date: e.target.value })
 					}}
 				/>
+				{form.date && isScheduledPost(form) && (
+					<div className='flex items-center gap-2 text-xs text-amber-700'>
+						<ScheduledBadge date={form.date} />
+						<span>日期晚于当前时间（{SITE_TIMEZONE}），到期后自动公开</span>
+					</div>
+				)}
 
 				<div className='flex items-center gap-2'>
 					<input
@@ -1,14 +1,19 @@
 import { CoverSection } from './sections/cover-section'
 import { MetaSection } from './sections/meta-section'
 import { ImagesSection } from './sections/images-section'
+import { DraftsSection } from './sections/drafts-section'
+import { useWriteStore } from '../stores/write-store'
 import { ANIMATION_DELAY, INIT_DELAY } from '@/consts'
 
 export function WriteSidebar() {
+	const { mode } = useWriteStore()
+
 	return (
 		<div className='w-[320px] space-y-6'>
 			<CoverSection delay={INIT_DELAY + ANIMATION_DELAY * 0} />
 			<MetaSection delay={INIT_DELAY + ANIMATION_DELAY * 1} />
 			<ImagesSection delay={INIT_DELAY + ANIMATION_DELAY * 2} />
+			{mode === 'create' && <DraftsSection delay={INIT_DELAY + ANIMATION_DELAY * 3} />}
 		</div>
 	)
 }
@@ -0,0 +1,20 @@
+import useSWR from 'swr'
+import { useAuthStore } from '@/hooks/use-auth'
+import { CONTENT_STORE } from '@/consts'
+import { getDraftPullRequest } from '../services/draft-pr'
+
+export function useDraftPullRequest(slug: string | null) {
+	const { isAuth } = useAuthStore()
+	const enabled = !!slug && isAuth && CONTENT_STORE === 'github'
+
+	const { data, error, isLoading, mutate } = useSWR(enabled ? ['draft-pr', slug] : null, ([, s]) => getDraftPullRequest(s), {
+		revalidateOnFocus: false
+	})
+
+	return {
+		pullRequest: data ?? null,
+		loading: isLoading,
+		error,
+		refresh: mutate
+	}
+}
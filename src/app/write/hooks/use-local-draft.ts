@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from 'react'
+import { mutate } from 'swr'
+import { toast } from 'sonner'
+import { useWriteStore } from '../stores/write-store'
+import { deleteLocalDraft, getLocalDraft, getLocalDraftKey, saveLocalDraft, toStoredImage, type LocalDraft } from '../services/local-drafts'
+
+export const LOCAL_DRAFTS_KEY = 'local-drafts'
+const AUTOSAVE_DELAY = 1000
+
+function saveCurrentDraft() {
+	const { mode, originalSlug, draftId, form, images, cover, dirty } = useWriteStore.getState()
+	if (!dirty) return
+	// 空白的新文章不保存
+	if (mode === 'create' && !form.title && !form.md && images.length === 0) return
+
+	saveLocalDraft({
+		key: getLocalDraftKey(mode, originalSlug, draftId),
+		mode,
+		originalSlug,
+		form,
+		images: images.map(toStoredImage),
+		cover: cover ? toStoredImage(cover) : null
+	})
+		.then(() => mutate(LOCAL_DRAFTS_KEY))
+		.catch(err => console.error('Failed to save local draft:', err))
+}
+
+/**
+ * 编辑内容变化后自动保存到 IndexedDB，离开页面时立即保存
+ */
+export function useDraftAutosave() {
+	useEffect(() => {
+		let timer: ReturnType<typeof setTimeout> | null = null
+
+		const flush = () => {
+			if (timer) clearTimeout(timer)
+			timer = null
+			saveCurrentDraft()
+		}
+
+		const unsubscribe = useWriteStore.subscribe((state, prev) => {
+			if (!state.dirty || state.loading) return
+			if (state.form === prev.form && state.images === prev.images && state.cover === prev.cover) return
+			if (timer) clearTimeout(timer)
+			timer = setTimeout(flush, AUTOSAVE_DELAY)
+		})
+
+		window.addEventListener('pagehide', flush)
+		return () => {
+			unsubscribe()
+			window.removeEventListener('pagehide', flush)
+			flush()
+		}
+	}, [])
+}
+
+/**
+ * 发布成功后删除对应的本地草稿
+ */
+export async function clearCurrentDraft() {
+	const { mode, originalSlug, draftId, markSaved } = useWriteStore.getState()
+	markSaved()
+	try {
+		await deleteLocalDraft(getLocalDraftKey(mode, originalSlug, draftId))
+		mutate(LOCAL_DRAFTS_KEY)
+	} catch (err) {
+		console.error('Failed to delete local draft:', err)
+	}
+}
+
+/**
+ * 打开已发布文章时检查是否有未发布的本地草稿
+ */
+export function useDraftRecovery(slug: string, loading: boolean) {
+	const { originalSlug, restoreDraft } = useWriteStore()
+	const [pendingDraft, setPendingDraft] = useState<LocalDraft | null>(null)
+	const loaded = !loading && !!slug && originalSlug === slug
+
+	useEffect(() => {
+		if (!loaded) return
+		let cancelled = false
+		getLocalDraft(getLocalDraftKey('edit', slug, ''))
+			.then(draft => {
+				if (cancelled || !draft) return
+				const { form: current } = useWriteStore.getState()
+				if (JSON.stringify(draft.form) === JSON.stringify(current) && !draft.images.some(img => img.type === 'file')) {
+					// 草稿与线上内容一致，无需恢复
+					deleteLocalDraft(draft.key)
+					return
+				}
+				setPendingDraft(draft)
+			})
+			.catch(err => console.error('Failed to read local draft:', err))
+		return () => {
+			cancelled = true
+		}
+	}, [loaded, slug])
+
+	const onRestore = useCallback(() => {
+		if (!pendingDraft) return
+		restoreDraft(pendingDraft)
+		setPendingDraft(null)
+		toast.success('已恢复本地草稿')
+	}, [pendingDraft, restoreDraft])
+
+	const onDiscard = useCallback(() => {
+		if (!pendingDraft) return
+		deleteLocalDraft(pendingDraft.key).then(() => mutate(LOCAL_DRAFTS_KEY))
+		setPendingDraft(null)
+	}, [pendingDraft])
+
+	return { pendingDraft, onRestore, onDiscard }
+}
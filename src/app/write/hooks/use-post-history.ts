@@ -0,0 +1,56 @@
+import { useCallback, useState } from 'react'
+import useSWR from 'swr'
+import { toast } from 'sonner'
+import { useAuthStore } from '@/hooks/use-auth'
+import { CONTENT_STORE } from '@/consts'
+import { listPostRevisions, loadPostRevision, restorePostRevision } from '../services/post-history'
+import { useWriteStore } from '../stores/write-store'
+
+export function usePostHistory(slug: string | null, enabled = true) {
+	const { isAuth } = useAuthStore()
+	const { setLoading, applyRevision } = useWriteStore()
+	const [restoring, setRestoring] = useState(false)
+	const active = enabled && !!slug && isAuth && CONTENT_STORE === 'github'
+
+	const { data, error, isLoading, mutate } = useSWR(active ? ['post-history', slug] : null, ([, s]) => listPostRevisions(s), {
+		revalidateOnFocus: false
+	})
+
+	const restore = useCallback(
+		async (sha: string) => {
+			if (!slug) return
+			try {
+				setRestoring(true)
+				setLoading(true)
+				const revision = await loadPostRevision(slug, sha)
+				await restorePostRevision(revision)
+				applyRevision(revision)
+				mutate()
+			} catch (err: any) {
+				console.error(err)
+				toast.error(err?.message || '恢复失败')
+			} finally {
+				setRestoring(false)
+				setLoading(false)
+			}
+		},
+		[slug, applyRevision, mutate, setLoading]
+	)
+
+	return {
+		commits: data ?? [],
+		loading: isLoading,
+		error,
+		restoring,
+		restore,
+		refresh: mutate
+	}
+}
+
+export function usePostRevision(slug: string | null, sha: string | null) {
+	const { data, isLoading } = useSWR(slug && sha ? ['post-revision', slug, sha] : null, ([, s, c]) => loadPostRevision(s, c), {
+		revalidateOnFocus: false
+	})
+
+	return { revision: data ?? null, loading: isLoading }
+}
@@ -1,14 +1,21 @@
-import { useCallback } from 'react'
+import { useCallback, useState } from 'react'
 import { readFileAsText } from '@/lib/file-utils'
 import { toast } from 'sonner'
 import { pushBlog } from '../services/push-blog'
 import { deleteBlog } from '../services/delete-blog'
+import { mergeDraftPullRequest } from '../services/draft-pr'
+import { useDraftPullRequest } from './use-draft-pr'
+import { clearCurrentDraft } from './use-local-draft'
 import { useWriteStore } from '../stores/write-store'
 import { useAuthStore } from '@/hooks/use-auth'
+import { ContentConflictError } from '@/lib/changeset'
 
 export function usePublish() {
-	const { loading, setLoading, form, cover, images, mode, originalSlug } = useWriteStore()
+	const { loading, setLoading, form, cover, images, mode, originalSlug, publishTarget, applyRename, baseSha, setBaseSha } = useWriteStore()
 	const { isAuth, setPrivateKey } = useAuthStore()
+	const [conflictPaths, setConflictPaths] = useState<string[] | null>(null)
+	const [draftSlug, setDraftSlug] = useState<string | null>(null)
+	const { pullRequest, refresh: refreshPullRequest } = useDraftPullRequest(originalSlug || draftSlug)
 
 	const onChoosePrivateKey = useCallback(
 		async (file: File) => {
@@ -18,26 +25,68 @@ export function usePublish() {
 		[setPrivateKey]
 	)
 
-	const onPublish = useCallback(async () => {
+	const onPublish = useCallback(
+		async (overwrite = false) => {
+			try {
+				setLoading(true)
+				setConflictPaths(null)
+				const commit = await pushBlog({
+					form,
+					cover,
+					images,
+					mode,
+					originalSlug,
+					overwrite,
+					target: publishTarget,
+					baseSha
+				})
+				if (commit) setBaseSha(commit.sha)
+				await clearCurrentDraft()
+
+				if (publishTarget === 'draft') {
+					setDraftSlug(form.slug)
+					refreshPullRequest()
+					return
+				}
+
+				if (mode === 'edit' && originalSlug && originalSlug !== form.slug) {
+					// 不跳转到新地址：新 slug 部署前无法加载，旧地址部署后会自动跳转
+					applyRename(form.slug)
+				}
+
+				const successMsg = mode === 'edit' ? '更新成功' : '发布成功'
+				toast.success(successMsg)
+			} catch (err: any) {
+				console.error(err)
+				if (err instanceof ContentConflictError) {
+					setConflictPaths(err.paths)
+					return
+				}
+				toast.error(err?.message || '操作失败')
+			} finally {
+				setLoading(false)
+			}
+		},
+		[form, cover, images, mode, originalSlug, publishTarget, baseSha, refreshPullRequest, setLoading, setBaseSha, applyRename]
+	)
+
+	const onMergeDraft = useCallback(async () => {
+		const targetSlug = originalSlug || draftSlug
+		if (!targetSlug) return
 		try {
 			setLoading(true)
-			await pushBlog({
-				form,
-				cover,
-				images,
-				mode,
-				originalSlug
-			})
-
-			const successMsg = mode === 'edit' ? '更新成功' : '发布成功'
-			toast.success(successMsg)
+			await mergeDraftPullRequest(targetSlug)
 		} catch (err: any) {
 			console.error(err)
-			toast.error(err?.message || '操作失败')
+			toast.error(err?.message || '合并失败')
 		} finally {
+			// 合并成功但索引更新失败时，刷新后显示「更新索引」按钮
+			refreshPullRequest()
 			setLoading(false)
 		}
-	}, [form, cover, images, mode, originalSlug, setLoading])
+	}, [originalSlug, draftSlug, refreshPullRequest, setLoading])
+
+	const onDismissConflict = useCallback(() => setConflictPaths(null), [])
 
 	const onDelete = useCallback(async () => {
 		const targetSlug = originalSlug || form.slug
@@ -61,6 +110,10 @@ export function usePublish() {
 		loading,
 		onChoosePrivateKey,
 		onPublish,
-		onDelete
+		onDelete,
+		conflictPaths,
+		onDismissConflict,
+		pullRequest,
+		onMergeDraft
 	}
 }
@@ -7,10 +7,12 @@ import { WriteSidebar } from './components/sidebar'
 import { WriteActions } from './components/actions'
 import { WritePreview } from './components/preview'
 import { useEffect } from 'react'
+import { useDraftAutosave } from './hooks/use-local-draft'
 
 export default function WritePage() {
 	const { form, cover, reset } = useWriteStore()
 	useEffect(() => reset(), [])
+	useDraftAutosave()
 	const { isPreview, closePreview } = usePreviewStore()
 
 	const coverPreviewUrl = cover ? (cover.type === 'url' ? cover.url : cover.previewUrl) : null
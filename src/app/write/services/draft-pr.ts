@@ -0,0 +1,108 @@
+import { toast } from 'sonner'
+import { getActiveSite } from '@/hooks/use-site-registry'
+import { prepareBlogsIndex } from '@/lib/blog-index'
+import { Changeset } from '@/lib/changeset'
+import { requireGithubStore, type GithubContentStore } from '@/lib/content-store'
+import { requireRole } from '@/lib/permissions'
+import { formatAuditTrailer } from '@/lib/audit'
+import { GithubApiError, type PullRequest } from '@/lib/github-client'
+import type { BlogConfig } from '@/app/blog/types'
+
+export type DraftPullRequest = PullRequest & {
+	// PR 已合并但文章索引还没有更新，草稿分支在索引更新成功后才删除
+	indexPending: boolean
+}
+
+export const getDraftBranch = (slug: string): string => `draft/${slug}`
+
+async function branchExists(store: GithubContentStore, branch: string): Promise<boolean> {
+	try {
+		await store.getRef(`heads/${branch}`)
+		return true
+	} catch (error) {
+		if (error instanceof GithubApiError && error.status === 404) return false
+		throw error
+	}
+}
+
+export async function getDraftPullRequest(slug: string): Promise<DraftPullRequest | null> {
+	if (!slug) return null
+	const store = requireGithubStore('审核发布')
+	const head = getDraftBranch(slug)
+	const pr = await store.findPullRequest(head, getActiveSite().branch)
+	if (!pr) return null
+	return { ...pr, indexPending: pr.merged && (await branchExists(store, head)) }
+}
+
+/**
+ * 草稿分支已有打开的 PR 时直接复用，否则新建
+ */
+export async function ensureDraftPullRequest(store: GithubContentStore, slug: string, title: string): Promise<PullRequest> {
+	const head = getDraftBranch(slug)
+	const existing = await store.findPullRequest(head, getActiveSite().branch)
+	if (existing?.state === 'open') return existing
+
+	return store.createPullRequest({
+		title: `发布文章: ${title || slug}`,
+		head,
+		base: getActiveSite().branch,
+		body: `通过 /write 提交审核的文章 \`${slug}\`，合并后会自动更新文章索引。`
+	})
+}
+
+/**
+ * 合并草稿 PR，并在主分支上更新文章索引
+ * 草稿分支不包含文章索引，避免与主分支上其他文章的索引更新产生冲突
+ * 索引更新失败时保留草稿分支，再次调用会跳过合并、只重新更新索引
+ */
+export async function mergeDraftPullRequest(slug: string): Promise<void> {
+	const store = requireGithubStore('审核发布')
+	const head = getDraftBranch(slug)
+	await requireRole('editor', '合并审核', store)
+
+	toast.info('正在检查 PR 状态...')
+	const pr = await store.findPullRequest(head, getActiveSite().branch)
+	const indexPending = !!pr?.merged && (await branchExists(store, head))
+	if (!pr || (pr.state !== 'open' && !indexPending)) throw new Error('没有待合并的 PR')
+
+	const configText = await store.readTextFile(`public/blogs/${slug}/config.json`, head)
+	const config: BlogConfig = configText ? JSON.parse(configText) : {}
+
+	if (!indexPending) {
+		toast.info(`正在合并 PR #${pr.number}...`)
+		await store.mergePullRequest(pr.number, `发布文章: ${slug} (#${pr.number})`, formatAuditTrailer({ operation: 'blog.merge', slugs: [slug] }, []).trim())
+	}
+
+	try {
+		await updateDraftIndex(store, slug, config)
+	} catch (error: any) {
+		console.error(error)
+		throw new Error(`PR #${pr.number} 已合并，但更新文章索引失败：${error?.message || '未知错误'}。请点击「更新索引」重试`)
+	}
+
+	await store.deleteRef(`heads/${head}`)
+
+	toast.success('合并成功！请等待页面部署后刷新')
+}
+
+async function updateDraftIndex(store: GithubContentStore, slug: string, config: BlogConfig): Promise<void> {
+	const changeset = new Changeset({ store })
+	changeset.addComputedFiles(ref =>
+		prepareBlogsIndex(
+			store,
+			{
+				slug,
+				title: config.title || slug,
+				tags: config.tags || [],
+				date: config.date || '',
+				summary: config.summary,
+				cover: config.cover,
+				hidden: config.hidden,
+				category: config.category,
+				author: config.author
+			},
+			ref
+		)
+	)
+	await changeset.commit(`更新索引: ${slug}`, { operation: 'blog.merge', slugs: [slug] })
+}
@@ -0,0 +1,57 @@
+import { createIdbStore } from '@/lib/idb'
+import { getSiteStorageKey } from '@/hooks/use-site-registry'
+import type { ImageItem, PublishForm } from '../types'
+
+// previewUrl 是 object URL，只在当前页面有效，恢复时重新生成
+export type StoredImageItem = { id: string; type: 'url'; url: string } | { id: string; type: 'file'; file: File; filename: string; hash?: string }
+
+export type LocalDraft = {
+	key: string
+	mode: 'create' | 'edit'
+	originalSlug: string | null
+	form: PublishForm
+	images: StoredImageItem[]
+	cover: StoredImageItem | null
+	updatedAt: number
+}
+
+const draftStore = createIdbStore<LocalDraft>('write-drafts', 'drafts')
+
+/**
+ * 编辑模式按 slug 保存，新建模式按本次会话的草稿 id 保存，不同站点的草稿互不覆盖
+ */
+export function getLocalDraftKey(mode: 'create' | 'edit', originalSlug: string | null, draftId: string): string {
+	return getSiteStorageKey(mode === 'edit' && originalSlug ? `edit:${originalSlug}` : `new:${draftId}`)
+}
+
+const isActiveSiteDraft = (draft: LocalDraft): boolean => {
+	const suffix = getSiteStorageKey('')
+	return suffix ? draft.key.endsWith(suffix) : !draft.key.includes('@')
+}
+
+export function toStoredImage(item: ImageItem): StoredImageItem {
+	if (item.type === 'url') return item
+	return { id: item.id, type: 'file', file: item.file, filename: item.filename, hash: item.hash }
+}
+
+export function fromStoredImage(item: StoredImageItem): ImageItem {
+	if (item.type === 'url') return item
+	return { ...item, previewUrl: URL.createObjectURL(item.file) }
+}
+
+export async function saveLocalDraft(draft: Omit<LocalDraft, 'updatedAt'>): Promise<void> {
+	await draftStore.put({ ...draft, updatedAt: Date.now() })
+}
+
+export async function getLocalDraft(key: string): Promise<LocalDraft | null> {
+	return (await draftStore.get(key)) ?? null
+}
+
+export async function listLocalDrafts(): Promise<LocalDraft[]> {
+	const drafts = (await draftStore.getAll()).filter(isActiveSiteDraft)
+	return drafts.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function deleteLocalDraft(key: string): Promise<void> {
+	await draftStore.delete(key)
+}
@@ -0,0 +1,72 @@
+import { getActiveSite } from '@/hooks/use-site-registry'
+import { requireGithubStore } from '@/lib/content-store'
+import type { CommitSummary } from '@/lib/github-client'
+import type { LoadedBlog } from '@/lib/load-blog'
+import type { BlogConfig } from '@/app/blog/types'
+import { toEditorDate } from '../stores/write-store'
+import { pushBlog } from './push-blog'
+
+export type PostRevision = LoadedBlog & {
+	sha: string
+	// 该版本的原始文件内容，用于对比
+	files: { markdown: string; config: string }
+}
+
+export async function listPostRevisions(slug: string): Promise<CommitSummary[]> {
+	if (!slug) return []
+	return requireGithubStore('文章历史').listCommits(`public/blogs/${slug}`, getActiveSite().branch)
+}
+
+/**
+ * 读取某次提交时的 index.md 和 config.json
+ */
+export async function loadPostRevision(slug: string, sha: string): Promise<PostRevision> {
+	const store = requireGithubStore('文章历史')
+	const basePath = `public/blogs/${slug}`
+
+	const [markdown, configText] = await Promise.all([store.readTextFile(`${basePath}/index.md`, sha), store.readTextFile(`${basePath}/config.json`, sha)])
+
+	let config: BlogConfig = {}
+	if (configText) {
+		try {
+			config = JSON.parse(configText)
+		} catch {
+			config = {}
+		}
+	}
+
+	return {
+		slug,
+		sha,
+		config,
+		markdown: markdown ?? '',
+		cover: config.cover,
+		files: { markdown: markdown ?? '', config: configText ?? '' }
+	}
+}
+
+/**
+ * 将文章恢复到某个历史版本，作为一次新的提交走正常发布流程
+ */
+export async function restorePostRevision(revision: PostRevision): Promise<void> {
+	if (!revision.files.markdown) throw new Error('该版本不包含文章内容，无法恢复')
+
+	const { slug, config } = revision
+	await pushBlog({
+		form: {
+			slug,
+			title: config.title || '',
+			md: revision.markdown,
+			tags: config.tags || [],
+			date: config.date ? toEditorDate(config.date) : undefined,
+			summary: config.summary,
+			hidden: config.hidden,
+			category: config.category
+		},
+		cover: config.cover ? { id: 'restored-cover', type: 'url', url: config.cover } : null,
+		mode: 'edit',
+		originalSlug: slug,
+		message: `恢复文章: ${slug} 至 ${revision.sha.slice(0, 7)}`,
+		operation: 'blog.restore'
+	})
+}
@@ -1,12 +1,16 @@
-import { toBase64Utf8, getRef, createTree, createCommit, updateRef, createBlob, type TreeItem } from '@/lib/github-client'
-import { fileToBase64NoPrefix, hashFileSHA256 } from '@/lib/file-utils'
-import { prepareBlogsIndex } from '@/lib/blog-index'
-import { getAuthToken } from '@/lib/auth'
-import { GITHUB_CONFIG } from '@/consts'
+import { hashFileSHA256 } from '@/lib/file-utils'
+import { prepareBlogsIndex, renameBlogInIndex } from '@/lib/blog-index'
+import { BLOG_REDIRECTS_PATH, prepareBlogRedirects, rewriteSlugPaths } from '@/lib/blog-redirects'
+import { Changeset } from '@/lib/changeset'
+import { requireGithubStore } from '@/lib/content-store'
+import { requirePostAccess } from '@/lib/permissions'
+import { getActiveSite } from '@/hooks/use-site-registry'
 import type { ImageItem } from '../types'
 import { getFileExt } from '@/lib/utils'
 import { toast } from 'sonner'
 import { formatDateTimeLocal } from '../stores/write-store'
+import { ensureDraftPullRequest, getDraftBranch } from './draft-pr'
+import type { AuditOperation } from '@/lib/audit'
 
 export type PushBlogParams = {
 	form: {
@@ -23,26 +27,55 @@ export type PushBlogParams = {
 	images?: ImageItem[]
 	mode?: 'create' | 'edit'
 	originalSlug?: string | null
+	// 忽略发布期间其他人对同一篇文章的修改，直接覆盖
+	overwrite?: boolean
+	// 编辑器加载文章时分支所在的提交，作为冲突检查的基准
+	baseSha?: string | null
+	// draft: 提交到 draft/<slug> 分支并创建 PR，合并后才正式发布
+	target?: 'main' | 'draft'
+	// 自定义提交信息，默认按 mode 生成
+	message?: string
+	// 审计记录中的操作类型，默认按 mode 生成
+	operation?: AuditOperation
 }
 
-export async function pushBlog(params: PushBlogParams): Promise<void> {
-	const { form, cover, images, mode = 'create', originalSlug } = params
+/**
+ * @returns 发布到主分支时返回新提交的 sha，作为下次发布的冲突检查基准
+ */
+export async function pushBlog(params: PushBlogParams): Promise<{ sha: string } | null> {
+	const { form, cover, images, mode = 'create', originalSlug, overwrite = false, target = 'main', message, operation, baseSha } = params
 
 	if (!form?.slug) throw new Error('需要 slug')
 
-	if (mode === 'edit' && originalSlug && originalSlug !== form.slug) {
-		throw new Error('编辑模式下不支持修改 slug，请保持原 slug 不变')
+	// 编辑模式下修改 slug：移动整个目录并记录跳转
+	const renameFrom = mode === 'edit' && originalSlug && originalSlug !== form.slug ? originalSlug : null
+	if (renameFrom && target === 'draft') {
+		throw new Error('审核模式下不支持修改 slug')
 	}
 
-	// 获取认证 token（自动从全局认证状态获取）
-	const token = await getAuthToken()
-
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
+	const draftStore = target === 'draft' ? requireGithubStore('审核发布') : null
+	// 草稿分支包含自己之前提交的草稿，只对主分支使用加载时的基准
+	const changeset = draftStore
+		? new Changeset({ store: draftStore, branch: getDraftBranch(form.slug), baseBranch: getActiveSite().branch })
+		: new Changeset({ baseSha })
 
 	const basePath = `public/blogs/${form.slug}`
-	const commitMessage = mode === 'edit' ? `更新文章: ${form.slug}` : `新增文章: ${form.slug}`
+	const defaultMessage = renameFrom ? `重命名文章: ${renameFrom} -> ${form.slug}` : mode === 'edit' ? `更新文章: ${form.slug}` : `新增文章: ${form.slug}`
+	const commitMessage = message || defaultMessage
+	const auditSlugs = renameFrom ? [renameFrom, form.slug] : [form.slug]
+
+	// 作者角色只能修改自己的文章，新文章记录发布者
+	const access = await requirePostAccess(changeset.store, renameFrom || form.slug, mode === 'edit' ? '修改' : '发布')
+	const author = access.author ?? access.actor.login ?? undefined
+
+	if (renameFrom) {
+		changeset.report('正在检查新 slug...')
+		const existing = await changeset.store.listFilesRecursive(basePath, changeset.branch)
+		if (existing.length > 0) {
+			throw new Error(`slug「${form.slug}」已存在，请换一个`)
+		}
+		changeset.moveDirectory(`public/blogs/${renameFrom}`, basePath)
+	}
 
 	// collect all local images (content + cover)
 	const allLocalImages: Array<{ img: Extract<ImageItem, { type: 'file' }>; id: string }> = []
@@ -59,66 +92,37 @@ export async function pushBlog(params: PushBlogParams): Promise<void> {
 		allLocalImages.push({ img: cover, id: cover.id })
 	}
 
-	toast.info('正在准备文件...')
+	changeset.report('正在准备文件...')
 
-	const uploadedHashes = new Set<string>()
-	let mdToUpload = form.md
+	let mdToUpload = renameFrom ? rewriteSlugPaths(form.md, renameFrom, form.slug) : form.md
 	let coverPath: string | undefined
 
-	// prepare tree items for all files
-	const treeItems: TreeItem[] = []
-
 	// process all images
-	if (allLocalImages.length > 0) {
-		toast.info('正在上传图片...')
-		for (const { img, id } of allLocalImages) {
-			const hash = img.hash || (await hashFileSHA256(img.file))
-			const ext = getFileExt(img.file.name)
-			const filename = `${hash}${ext}`
-			const publicPath = `/blogs/${form.slug}/${filename}`
-
-			if (!uploadedHashes.has(hash)) {
-				const path = `${basePath}/${filename}`
-				const contentBase64 = await fileToBase64NoPrefix(img.file)
-				// create blob for image
-				const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-				treeItems.push({
-					path,
-					mode: '100644',
-					type: 'blob',
-					sha: blobData.sha
-				})
-				uploadedHashes.add(hash)
-			}
-
-			// replace placeholder in markdown
-			const placeholder = `local-image:${id}`
-			mdToUpload = mdToUpload.split(`(${placeholder})`).join(`(${publicPath})`)
-
-			// set cover path if this is the cover
-			if (cover?.type === 'file' && cover.id === id) {
-				coverPath = publicPath
-			}
+	for (const { img, id } of allLocalImages) {
+		const hash = img.hash || (await hashFileSHA256(img.file))
+		const ext = getFileExt(img.file.name)
+		const filename = `${hash}${ext}`
+		const publicPath = `/blogs/${form.slug}/${filename}`
+
+		changeset.addBinaryFile(`${basePath}/${filename}`, img.file)
+
+		// replace placeholder in markdown
+		const placeholder = `local-image:${id}`
+		mdToUpload = mdToUpload.split(`(${placeholder})`).join(`(${publicPath})`)
+
+		// set cover path if this is the cover
+		if (cover?.type === 'file' && cover.id === id) {
+			coverPath = publicPath
 		}
 	}
 
 	// handle external cover URL
 	if (cover?.type === 'url') {
-		coverPath = cover.url
+		coverPath = renameFrom ? rewriteSlugPaths(cover.url, renameFrom, form.slug) : cover.url
 	}
 
-	toast.info('正在创建文件...')
-
-	// create blob for index.md
-	const mdBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(mdToUpload), 'base64')
-	treeItems.push({
-		path: `${basePath}/index.md`,
-		mode: '100644',
-		type: 'blob',
-		sha: mdBlob.sha
-	})
+	changeset.addTextFile(`${basePath}/index.md`, mdToUpload)
 
-	// create blob for config.json
 	const dateStr = form.date || formatDateTimeLocal()
 	const config = {
 		title: form.title,
@@ -127,53 +131,51 @@ export async function pushBlog(params: PushBlogParams): Promise<void> {
 		summary: form.summary,
 		cover: coverPath,
 		hidden: form.hidden,
-		category: form.category
+		category: form.category,
+		author,
+		updatedAt: mode === 'edit' ? formatDateTimeLocal() : undefined
+	}
+	changeset.addTextFile(`${basePath}/config.json`, JSON.stringify(config, null, 2))
+
+	if (draftStore) {
+		// draft branch leaves the blogs index untouched, it is updated when the PR is merged
+		await changeset.commit(commitMessage, { operation: 'blog.draft', slugs: auditSlugs })
+		const pr = await ensureDraftPullRequest(draftStore, form.slug, form.title)
+		toast.success(`已提交审核：PR #${pr.number}`)
+		return null
+	}
+
+	// blogs index is regenerated from the latest branch state on every commit attempt
+	const indexItem = {
+		slug: form.slug,
+		title: form.title,
+		tags: form.tags,
+		date: dateStr,
+		summary: form.summary,
+		cover: coverPath,
+		hidden: form.hidden,
+		category: form.category,
+		author
+	}
+	if (renameFrom) {
+		changeset.addComputedFiles(ref => renameBlogInIndex(changeset.store, renameFrom, indexItem, ref))
+		changeset.addComputedTextFile(BLOG_REDIRECTS_PATH, ref => prepareBlogRedirects(changeset.store, renameFrom, form.slug, ref))
+	} else {
+		changeset.addComputedFiles(ref => prepareBlogsIndex(changeset.store, indexItem, ref))
+	}
+
+	if (!overwrite) {
+		const guardedPath = `public/blogs/${renameFrom || form.slug}`
+		changeset.guardPaths(`${guardedPath}/index.md`, `${guardedPath}/config.json`)
+		// 新文章在加载时还不存在，提交前若已被其他人以相同 slug 创建则视为冲突
+		if (renameFrom || (mode === 'create' && !draftStore && !baseSha)) {
+			changeset.guardAbsentPaths(`${basePath}/index.md`, `${basePath}/config.json`)
+		}
 	}
 
-	const configBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(JSON.stringify(config, null, 2)), 'base64')
-	treeItems.push({
-		path: `${basePath}/config.json`,
-		mode: '100644',
-		type: 'blob',
-		sha: configBlob.sha
-	})
-
-	// prepare and create blob for blogs index
-	const indexJson = await prepareBlogsIndex(
-		token,
-		GITHUB_CONFIG.OWNER,
-		GITHUB_CONFIG.REPO,
-		{
-			slug: form.slug,
-			title: form.title,
-			tags: form.tags,
-			date: dateStr,
-			summary: form.summary,
-			cover: coverPath,
-			hidden: form.hidden,
-			category: form.category
-		},
-		GITHUB_CONFIG.BRANCH
-	)
-	const indexBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(indexJson), 'base64')
-	treeItems.push({
-		path: 'public/blogs/index.json',
-		mode: '100644',
-		type: 'blob',
-		sha: indexBlob.sha
-	})
-
-	// create tree
-	toast.info('正在创建文件树...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
-
-	// create commit
-	toast.info('正在创建提交...')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitMessage, treeData.sha, [latestCommitSha])
-
-	// update branch reference
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+	const defaultOperation: AuditOperation = renameFrom ? 'blog.rename' : mode === 'edit' ? 'blog.update' : 'blog.create'
+	const commit = await changeset.commit(commitMessage, { operation: operation || defaultOperation, slugs: auditSlugs })
 
 	toast.success('发布成功！')
+	return commit
 }
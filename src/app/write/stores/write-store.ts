@@ -1,17 +1,21 @@
 import { create } from 'zustand'
 import { toast } from 'sonner'
 import { hashFileSHA256 } from '@/lib/file-utils'
-import { loadBlog } from '@/lib/load-blog'
+import { loadBlog, loadBlogFromStore, type LoadedBlog } from '@/lib/load-blog'
+import { rewriteSlugPaths } from '@/lib/blog-redirects'
+import { formatSiteDateTime, parseSiteTime } from '@/lib/blog-schedule'
 import type { PublishForm, ImageItem } from '../types'
+import { fromStoredImage, type LocalDraft } from '../services/local-drafts'
 
-export const formatDateTimeLocal = (date: Date = new Date()): string => {
-	const pad = (n: number) => String(n).padStart(2, '0')
-	const year = date.getFullYear()
-	const month = pad(date.getMonth() + 1)
-	const day = pad(date.getDate())
-	const hours = pad(date.getHours())
-	const minutes = pad(date.getMinutes())
-	return `${year}-${month}-${day}T${hours}:${minutes}`
+// 日期按站点时区编辑和保存，与作者浏览器所在的时区无关
+export const formatDateTimeLocal = (date: Date | number = new Date()): string => formatSiteDateTime(date)
+
+/**
+ * 把文章配置中的日期转换为编辑器格式，无法解析时使用当前时间
+ */
+export const toEditorDate = (date?: string): string => {
+	const time = date ? parseSiteTime(date) : NaN
+	return formatDateTimeLocal(Number.isNaN(time) ? new Date() : time)
 }
 
 type WriteStore = {
@@ -38,14 +42,43 @@ type WriteStore = {
 	// Publish state
 	loading: boolean
 	setLoading: (loading: boolean) => void
+	// draft: 提交到草稿分支并创建 PR
+	publishTarget: 'main' | 'draft'
+	setPublishTarget: (target: 'main' | 'draft') => void
 
 	// Load blog for editing
 	loadBlogForEdit: (slug: string) => Promise<void>
+	// 加载文章时分支所在的提交，发布时据此检查同一篇文章是否被其他人修改；无法确定时为 null
+	baseSha: string | null
+	setBaseSha: (sha: string | null) => void
+	// 用历史版本替换当前编辑内容
+	applyRevision: (blog: LoadedBlog) => void
+	// slug 修改发布成功后，把正文和图片中的旧路径同步为新 slug
+	applyRename: (slug: string) => void
+
+	// 本地草稿：draftId 标识新建模式下的草稿，dirty 表示存在未保存到仓库的修改
+	draftId: string
+	dirty: boolean
+	markSaved: () => void
+	restoreDraft: (draft: LocalDraft) => void
 
 	// Reset to create mode
 	reset: () => void
 }
 
+const createDraftId = () => Math.random().toString(36).slice(2, 10)
+
+const revokePreviewUrls = (images: ImageItem[], cover: ImageItem | null) => {
+	for (const img of images) {
+		if (img.type === 'file') {
+			URL.revokeObjectURL(img.previewUrl)
+		}
+	}
+	if (cover?.type === 'file' && !images.some(img => img.id === cover.id)) {
+		URL.revokeObjectURL(cover.previewUrl)
+	}
+}
+
 const initialForm: PublishForm = {
 	slug: '',
 	title: '',
@@ -57,6 +90,52 @@ const initialForm: PublishForm = {
 	category: ''
 }
 
+/**
+ * 把加载到的文章转换为编辑状态：解析正文图片、封面和表单
+ */
+function toEditState(slug: string, blog: LoadedBlog): Pick<WriteStore, 'mode' | 'originalSlug' | 'form' | 'images' | 'cover'> {
+	// Parse images from markdown
+	const images: ImageItem[] = []
+	const imageRegex = /!\[.*?\]\((.*?)\)/g
+	let match
+	while ((match = imageRegex.exec(blog.markdown)) !== null) {
+		const url = match[1]
+		// Skip cover image and only collect content images
+		if (url && url !== blog.cover && !url.startsWith('local-image:')) {
+			// Check if already added
+			if (!images.some(img => img.type === 'url' && img.url === url)) {
+				const id = Math.random().toString(36).slice(2, 10)
+				images.push({ id, type: 'url', url })
+			}
+		}
+	}
+
+	// Set cover
+	let cover: ImageItem | null = null
+	if (blog.cover) {
+		const coverId = Math.random().toString(36).slice(2, 10)
+		cover = { id: coverId, type: 'url', url: blog.cover }
+	}
+
+	// Set form
+	return {
+		mode: 'edit',
+		originalSlug: slug,
+		form: {
+			slug,
+			title: blog.config.title || '',
+			md: blog.markdown,
+			tags: blog.config.tags || [],
+			date: toEditorDate(blog.config.date),
+			summary: blog.config.summary || '',
+			hidden: blog.config.hidden || false,
+			category: blog.config.category || ''
+		},
+		images,
+		cover
+	}
+}
+
 export const useWriteStore = create<WriteStore>((set, get) => ({
 	// Mode state
 	mode: 'create',
@@ -65,7 +144,7 @@ export const useWriteStore = create<WriteStore>((set, get) => ({
 
 	// Form state
 	form: { ...initialForm },
-	updateForm: updates => set(state => ({ form: { ...state.form, ...updates } })),
+	updateForm: updates => set(state => ({ form: { ...state.form, ...updates }, dirty: true })),
 	setForm: form => set({ form }),
 
 	// Image state
@@ -78,7 +157,7 @@ export const useWriteStore = create<WriteStore>((set, get) => ({
 			return
 		}
 		const id = Math.random().toString(36).slice(2, 10)
-		set(state => ({ images: [{ id, type: 'url', url }, ...state.images] }))
+		set(state => ({ images: [{ id, type: 'url', url }, ...state.images], dirty: true }))
 	},
 	addFiles: async (files: FileList | File[]) => {
 		const { images } = get()
@@ -124,7 +203,7 @@ export const useWriteStore = create<WriteStore>((set, get) => ({
 				return { id, type: 'file', file, previewUrl, filename, hash }
 			})
 
-			set(state => ({ images: [...newItems, ...state.images] }))
+			set(state => ({ images: [...newItems, ...state.images], dirty: true }))
 			resultImages.push(...newItems)
 		} else if (resultImages.length === 0) {
 			toast.info('图片已存在，不重复添加')
@@ -143,64 +222,30 @@ export const useWriteStore = create<WriteStore>((set, get) => ({
 					}
 				}
 			}
-			return { images: state.images.filter(it => it.id !== id) }
+			return { images: state.images.filter(it => it.id !== id), dirty: true }
 		}),
 
 	// Cover state
 	cover: null,
-	setCover: cover => set({ cover }),
+	setCover: cover => set({ cover, dirty: true }),
 
 	// Publish state
 	loading: false,
 	setLoading: loading => set({ loading }),
+	publishTarget: 'main',
+	setPublishTarget: publishTarget => set({ publishTarget }),
 
 	// Load blog for editing
 	loadBlogForEdit: async (slug: string) => {
 		try {
 			set({ loading: true })
-			const blog = await loadBlog(slug)
-
-			// Parse images from markdown
-			const images: ImageItem[] = []
-			const imageRegex = /!\[.*?\]\((.*?)\)/g
-			let match
-			while ((match = imageRegex.exec(blog.markdown)) !== null) {
-				const url = match[1]
-				// Skip cover image and only collect content images
-				if (url && url !== blog.cover && !url.startsWith('local-image:')) {
-					// Check if already added
-					if (!images.some(img => img.type === 'url' && img.url === url)) {
-						const id = Math.random().toString(36).slice(2, 10)
-						images.push({ id, type: 'url', url })
-					}
-				}
-			}
-
-			// Set cover
-			let cover: ImageItem | null = null
-			if (blog.cover) {
-				const coverId = Math.random().toString(36).slice(2, 10)
-				cover = { id: coverId, type: 'url', url: blog.cover }
-			}
-
-			// Set form
-			set({
-				mode: 'edit',
-				originalSlug: slug,
-				form: {
-					slug,
-					title: blog.config.title || '',
-					md: blog.markdown,
-					tags: blog.config.tags || [],
-					date: blog.config.date ? formatDateTimeLocal(new Date(blog.config.date)) : formatDateTimeLocal(),
-					summary: blog.config.summary || '',
-					hidden: blog.config.hidden || false,
-					category: blog.config.category || ''
-				},
-				images,
-				cover,
-				loading: false
+			const stored = await loadBlogFromStore(slug).catch(err => {
+				console.warn('Failed to load blog from content store:', err)
+				return null
 			})
+			const blog = stored?.blog ?? (await loadBlog(slug))
+
+			set({ ...toEditState(slug, blog), baseSha: stored?.baseSha ?? null, loading: false, dirty: false })
 
 			toast.success('博客加载成功')
 		} catch (err: any) {
@@ -211,25 +256,60 @@ export const useWriteStore = create<WriteStore>((set, get) => ({
 		}
 	},
 
+	baseSha: null,
+	setBaseSha: baseSha => set({ baseSha }),
+
+	applyRevision: blog => set({ ...toEditState(blog.slug, blog), dirty: false }),
+
+	applyRename: slug => {
+		const { originalSlug: from, form, images, cover } = get()
+		if (!from || from === slug) return
+		const rewrite = (item: ImageItem): ImageItem => (item.type === 'url' ? { ...item, url: rewriteSlugPaths(item.url, from, slug) } : item)
+		set({
+			originalSlug: slug,
+			form: { ...form, slug, md: rewriteSlugPaths(form.md, from, slug) },
+			images: images.map(rewrite),
+			cover: cover ? rewrite(cover) : null
+		})
+	},
+
+	draftId: createDraftId(),
+	dirty: false,
+	markSaved: () => set({ dirty: false }),
+	restoreDraft: draft => {
+		const { images, cover } = get()
+		revokePreviewUrls(images, cover)
+
+		const restoredImages = draft.images.map(fromStoredImage)
+		// 封面通常也在图片列表里，复用同一个条目避免重复生成 object URL
+		const restoredCover = draft.cover ? (restoredImages.find(img => img.id === draft.cover!.id) ?? fromStoredImage(draft.cover)) : null
+
+		set({
+			mode: draft.mode,
+			originalSlug: draft.originalSlug,
+			form: draft.form,
+			images: restoredImages,
+			cover: restoredCover,
+			draftId: draft.key.startsWith('new:') ? draft.key.slice(4) : get().draftId,
+			dirty: true
+		})
+	},
+
 	// Reset to create mode
 	reset: () => {
 		// Revoke object URLs
 		const { images, cover } = get()
-		for (const img of images) {
-			if (img.type === 'file') {
-				URL.revokeObjectURL(img.previewUrl)
-			}
-		}
-		if (cover?.type === 'file') {
-			URL.revokeObjectURL(cover.previewUrl)
-		}
+		revokePreviewUrls(images, cover)
 
 		set({
 			mode: 'create',
 			originalSlug: null,
+			baseSha: null,
 			form: { ...initialForm, date: formatDateTimeLocal() },
 			images: [],
-			cover: null
+			cover: null,
+			draftId: createDraftId(),
+			dirty: false
 		})
 	}
 }))
@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Copy, ExternalLink } from 'lucide-react'
+import { DialogModal } from '@/components/dialog-modal'
+import { useAuthStore } from '@/hooks/use-auth'
+import { getActiveSite } from '@/hooks/use-site-registry'
+import { GITHUB_CONFIG } from '@/consts'
+import { pollDeviceToken, requestDeviceCode, type DeviceCode } from '@/lib/github-device-flow'
+import { cn } from '@/lib/utils'
+
+type Tab = 'oauth' | 'pat'
+
+const TABS: { value: Tab; label: string }[] = [
+	{ value: 'oauth', label: 'GitHub 登录' },
+	{ value: 'pat', label: '访问令牌' }
+]
+
+interface AuthDialogProps {
+	open: boolean
+	onClose: () => void
+}
+
+/**
+ * 不使用 App 私钥的登录方式：GitHub 设备登录或细粒度访问令牌，供协作者使用
+ */
+export function AuthDialog({ open, onClose }: AuthDialogProps) {
+	const { signInWithToken } = useAuthStore()
+	const [tab, setTab] = useState<Tab>(GITHUB_CONFIG.CLIENT_ID ? 'oauth' : 'pat')
+	const [pat, setPat] = useState('')
+	const [deviceCode, setDeviceCode] = useState<DeviceCode | null>(null)
+	const [submitting, setSubmitting] = useState(false)
+	const abortRef = useRef<AbortController | null>(null)
+	const { owner, repo } = getActiveSite()
+
+	const cancelDeviceLogin = () => {
+		abortRef.current?.abort()
+		abortRef.current = null
+		setDeviceCode(null)
+	}
+
+	useEffect(() => {
+		if (open) return
+		cancelDeviceLogin()
+		setPat('')
+		setSubmitting(false)
+	}, [open])
+
+	const handleSuccess = (login: string | null) => {
+		toast.success(login ? `已登录为 ${login}` : '登录成功')
+		onClose()
+	}
+
+	const handlePatSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+		try {
+			setSubmitting(true)
+			await signInWithToken(pat.trim(), 'pat')
+			handleSuccess(useAuthStore.getState().login)
+		} catch (error: any) {
+			toast.error(error?.message || '令牌校验失败')
+		} finally {
+			setSubmitting(false)
+		}
+	}
+
+	const handleDeviceLogin = async () => {
+		const controller = new AbortController()
+		abortRef.current = controller
+		try {
+			setSubmitting(true)
+			const code = await requestDeviceCode()
+			if (controller.signal.aborted) return
+			setDeviceCode(code)
+
+			const { token, expiresAt } = await pollDeviceToken(code, controller.signal)
+			await signInWithToken(token, 'oauth', expiresAt)
+			handleSuccess(useAuthStore.getState().login)
+		} catch (error: any) {
+			if (error?.name === 'AbortError') return
+			toast.error(error?.message || 'GitHub 登录失败')
+			setDeviceCode(null)
+		} finally {
+			if (abortRef.current === controller) abortRef.current = null
+			setSubmitting(false)
+		}
+	}
+
+	const handleCopyCode = async () => {
+		if (!deviceCode) return
+		try {
+			await navigator.clipboard.writeText(deviceCode.userCode)
+			toast.success('验证码已复制')
+		} catch {
+			toast.error('复制失败，请手动输入')
+		}
+	}
+
+	return (
+		<DialogModal open={open} onClose={onClose} className='card w-[440px] max-w-[90vw] rounded-2xl p-6'>
+			<div className='mb-4 text-lg font-semibold'>登录</div>
+
+			<div className='bg-card mb-4 flex gap-1 rounded-xl border p-1 text-sm'>
+				{TABS.map(item => (
+					<button
+						key={item.value}
+						type='button'
+						disabled={item.value === 'oauth' && !GITHUB_CONFIG.CLIENT_ID}
+						onClick={() => {
+							cancelDeviceLogin()
+							setTab(item.value)
+						}}
+						className={cn('flex-1 rounded-lg px-3 py-1.5 disabled:opacity-40', tab === item.value && 'bg-brand/10 text-brand')}>
+						{item.label}
+					</button>
+				))}
+			</div>
+
+			{tab === 'oauth' ? (
+				<div className='space-y-4 text-sm'>
+					{deviceCode ? (
+						<>
+							<p className='text-secondary'>在 GitHub 页面输入以下验证码并授权，授权完成后会自动登录。</p>
+							<div className='flex items-center justify-center gap-3'>
+								<span className='font-mono text-2xl font-semibold tracking-widest'>{deviceCode.userCode}</span>
+								<button type='button' onClick={handleCopyCode} className='text-secondary hover:text-brand' aria-label='复制验证码'>
+									<Copy className='size-4' />
+								</button>
+							</div>
+							<a href={deviceCode.verificationUri} target='_blank' rel='noreferrer' className='brand-btn flex items-center justify-center gap-2 px-4'>
+								打开 GitHub 授权页面
+								<ExternalLink className='size-4' />
+							</a>
+							<p className='text-secondary text-center text-xs'>等待授权中...</p>
+						</>
+					) : (
+						<>
+							<p className='text-secondary'>
+								使用 GitHub 账号登录，需要对 {owner}/{repo} 有写入权限。
+							</p>
+							<button type='button' onClick={handleDeviceLogin} disabled={submitting} className='brand-btn w-full px-4'>
+								{submitting ? '请求中...' : '获取验证码'}
+							</button>
+						</>
+					)}
+				</div>
+			) : (
+				<form onSubmit={handlePatSubmit} className='space-y-4 text-sm'>
+					<p className='text-secondary'>
+						粘贴仅授权 {owner}/{repo} 的细粒度访问令牌，需要 Contents 读写权限，审核模式还需要 Pull requests
+						读写权限。令牌只保存在当前会话中。
+					</p>
+					<input
+						type='password'
+						autoFocus
+						autoComplete='off'
+						placeholder='github_pat_...'
+						className='bg-card w-full rounded-lg border px-3 py-2 font-mono'
+						value={pat}
+						onChange={e => setPat(e.target.value)}
+					/>
+					<button type='submit' disabled={submitting || !pat.trim()} className='brand-btn w-full px-4'>
+						{submitting ? '校验中...' : '登录'}
+					</button>
+				</form>
+			)}
+		</DialogModal>
+	)
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import { motion } from 'motion/react'
+import useSWR from 'swr'
+import { Github, KeyRound, Ticket } from 'lucide-react'
+import { toast } from 'sonner'
+import { useAuthStore } from '@/hooks/use-auth'
+import type { AuthProvider } from '@/lib/auth'
+import { getCurrentActor, ROLE_LABELS } from '@/lib/permissions'
+import { CONTENT_STORE } from '@/consts'
+import { cn } from '@/lib/utils'
+
+const PROVIDER_META: Record<AuthProvider, { label: string; icon: typeof KeyRound }> = {
+	app: { label: 'App 私钥', icon: KeyRound },
+	pat: { label: '访问令牌', icon: Ticket },
+	oauth: { label: 'GitHub', icon: Github }
+}
+
+/**
+ * 显示当前授权方式和角色，点击退出登录
+ */
+export function AuthStatus({ className }: { className?: string }) {
+	const { isAuth, provider, login, signOut } = useAuthStore()
+	const visible = CONTENT_STORE === 'github' && isAuth && !!provider
+	const { data: actor } = useSWR(visible ? ['current-actor', provider, login] : null, () => getCurrentActor(), { revalidateOnFocus: false })
+
+	if (!visible || !provider) return null
+
+	const { label, icon: Icon } = PROVIDER_META[provider]
+	const roleText = actor ? (actor.role ? ROLE_LABELS[actor.role] : '无权限') : null
+	const text = [label, login, roleText].filter(Boolean).join(' · ')
+
+	const handleSignOut = () => {
+		if (!window.confirm(`退出当前登录（${text}）吗？`)) return
+		signOut()
+		toast.success('已退出登录')
+	}
+
+	return (
+		<motion.button
+			initial={{ opacity: 0, scale: 0.4 }}
+			animate={{ opacity: 1, scale: 1 }}
+			whileHover={{ scale: 1.05 }}
+			whileTap={{ scale: 0.95 }}
+			onClick={handleSignOut}
+			title='点击退出登录'
+			className={cn('card text-secondary static flex items-center gap-2 rounded-full px-4 py-2.5 text-xs', className)}>
+			<Icon className='size-4' />
+			{text}
+		</motion.button>
+	)
+}
@@ -0,0 +1,60 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import { motion } from 'motion/react'
+import { INIT_DELAY } from '@/consts'
+import { useSize } from '@/hooks/use-size'
+import { BlogSidebar } from '@/components/blog-sidebar'
+import { useConfigStore } from '@/app/(home)/stores/config-store'
+import type { FootnoteItem, TocItem } from '@/lib/markdown/pipeline'
+
+type BlogArticleProps = {
+	content: ReactNode
+	toc: TocItem[]
+	footnotes: FootnoteItem[]
+	title: string
+	tags: string[]
+	date: string
+	summary?: string
+	cover?: string
+	slug?: string
+	// 服务端预渲染时不做淡入，未执行脚本时正文也可见
+	prerendered?: boolean
+}
+
+/**
+ * 已渲染好的文章正文和侧边栏，文章页（服务端预渲染）和编辑预览共用
+ */
+export function BlogArticle({ content, toc, footnotes, title, tags, date, summary, cover, slug, prerendered }: BlogArticleProps) {
+	const { maxSM: isMobile } = useSize()
+	const { siteContent } = useConfigStore()
+	const summaryInContent = siteContent.summaryInContent ?? false
+
+	return (
+		<div className='mx-auto flex max-w-[1140px] justify-center gap-6 px-6 pt-28 pb-12 max-sm:px-0'>
+			<motion.article
+				initial={prerendered ? false : { opacity: 0 }}
+				animate={{ opacity: 1 }}
+				transition={{ delay: INIT_DELAY }}
+				className='card bg-article static flex-1 overflow-auto rounded-xl p-8'>
+				<div>
+					<div className='text-center text-2xl font-semibold'>{title}</div>
+
+					<div className='text-secondary mt-4 flex flex-wrap items-center justify-center gap-3 px-8 text-center text-sm'>
+						{tags.map(t => (
+							<span key={t}>#{t}</span>
+						))}
+					</div>
+
+					<div className='text-secondary mt-3 text-center text-sm'>{date}</div>
+
+					{summary && summaryInContent && <div className='text-secondary mt-6 cursor-text text-center text-sm'>“{summary}”</div>}
+
+					<div className='prose mt-6 max-w-none cursor-text'>{content}</div>
+				</div>
+			</motion.article>
+
+			{!isMobile && <BlogSidebar cover={cover} summary={summary} toc={toc} footnotes={footnotes} slug={slug} />}
+		</div>
+	)
+}
@@ -6,6 +6,7 @@ import LikeButton from '@/components/like-button'
 import { BlogToc } from '@/components/blog-toc'
 import { ScrollTopButton } from '@/components/scroll-top-button'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
+import type { FootnoteItem } from '@/lib/markdown-renderer'
 
 type TocItem = {
 	id: string
@@ -17,12 +18,14 @@ type BlogSidebarProps = {
 	cover?: string
 	summary?: string
 	toc: TocItem[]
+	footnotes?: FootnoteItem[]
 	slug?: string
 }
 
-export function BlogSidebar({ cover, summary, toc, slug }: BlogSidebarProps) {
+export function BlogSidebar({ cover, summary, toc, footnotes = [], slug }: BlogSidebarProps) {
 	const { siteContent } = useConfigStore()
 	const summaryInContent = siteContent.summaryInContent ?? false
+	const footnotesInSidebar = siteContent.footnotesInSidebar ?? false
 
 	return (
 		<div className='sticky flex w-[200px] shrink-0 flex-col items-start gap-4 self-start max-sm:hidden' style={{ top: 24 }}>
@@ -49,9 +52,29 @@ export function BlogSidebar({ cover, summary, toc, slug }: BlogSidebarProps) {
 
 			<BlogToc toc={toc} delay={INIT_DELAY + ANIMATION_DELAY * 3} />
 
-			<LikeButton slug={slug} delay={(INIT_DELAY + ANIMATION_DELAY * 4) * 1000} />
+			{footnotesInSidebar && footnotes.length > 0 && (
+				<motion.div
+					initial={{ opacity: 0, scale: 0.8 }}
+					animate={{ opacity: 1, scale: 1 }}
+					transition={{ delay: INIT_DELAY + ANIMATION_DELAY * 4 }}
+					className='bg-card w-full rounded-xl border p-3 text-sm'>
+					<h2 className='text-secondary mb-2 font-medium'>脚注</h2>
+					<ol className='scrollbar-none max-h-[240px] space-y-2 overflow-auto'>
+						{footnotes.map(item => (
+							<li key={item.id} className='text-secondary flex gap-1.5'>
+								<a href={`#${item.id}`} className='hover:text-brand shrink-0 font-medium'>
+									[{item.number}]
+								</a>
+								<span className='line-clamp-3 cursor-text'>{item.text}</span>
+							</li>
+						))}
+					</ol>
+				</motion.div>
+			)}
+
+			<LikeButton slug={slug} delay={(INIT_DELAY + ANIMATION_DELAY * 5) * 1000} />
 
-			<ScrollTopButton delay={INIT_DELAY + ANIMATION_DELAY * 5} />
+			<ScrollTopButton delay={INIT_DELAY + ANIMATION_DELAY * 6} />
 		</div>
 	)
 }
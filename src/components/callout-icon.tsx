@@ -0,0 +1,15 @@
+import { Info, Lightbulb, MessageSquareWarning, OctagonAlert, TriangleAlert } from 'lucide-react'
+import type { CalloutKind } from '@/lib/markdown/callouts'
+
+const ICONS: Record<CalloutKind, typeof Info> = {
+	note: Info,
+	tip: Lightbulb,
+	important: MessageSquareWarning,
+	warning: TriangleAlert,
+	caution: OctagonAlert
+}
+
+export function CalloutIcon({ kind }: { kind: string }) {
+	const Icon = ICONS[kind as CalloutKind] ?? Info
+	return <Icon className='callout-icon' size={16} />
+}
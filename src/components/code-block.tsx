@@ -6,9 +6,11 @@ import { Copy, Check } from 'lucide-react'
 type CodeBlockProps = {
 	children: React.ReactNode
 	code: string
+	// 复制按钮左侧的额外按钮
+	actions?: React.ReactNode
 }
 
-export function CodeBlock({ children, code }: CodeBlockProps) {
+export function CodeBlock({ children, code, actions }: CodeBlockProps) {
 	const [copied, setCopied] = useState(false)
 
 	const handleCopy = async () => {
@@ -23,14 +25,17 @@ export function CodeBlock({ children, code }: CodeBlockProps) {
 
 	return (
 		<div className='code-block-wrapper'>
-			<button
-				type='button'
-				onClick={handleCopy}
-				className='code-block-copy-btn'
-				aria-label='Copy code'
-			>
-				{copied ? <Check size={16} /> : <Copy size={16} />}
-			</button>
+			<div className='code-block-actions'>
+				{actions}
+				<button
+					type='button'
+					onClick={handleCopy}
+					className='code-block-copy-btn'
+					aria-label='Copy code'
+				>
+					{copied ? <Check size={16} /> : <Copy size={16} />}
+				</button>
+			</div>
 			{children}
 		</div>
 	)
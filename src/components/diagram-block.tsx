@@ -0,0 +1,63 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Code2, Workflow } from 'lucide-react'
+import { CodeBlock } from '@/components/code-block'
+import { renderDiagram } from '@/lib/diagram-renderer'
+import type { DiagramLang } from '@/lib/markdown/diagrams'
+
+type DiagramBlockProps = {
+	lang: DiagramLang
+	code: string
+}
+
+/**
+ * 图表代码块：渲染成功后显示 SVG，可切换查看源码；加载中或渲染失败时显示源码
+ */
+export function DiagramBlock({ lang, code }: DiagramBlockProps) {
+	const [svg, setSvg] = useState<string | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [showCode, setShowCode] = useState(false)
+
+	useEffect(() => {
+		let cancelled = false
+		setSvg(null)
+		setError(null)
+
+		renderDiagram(lang, code)
+			.then(result => {
+				if (!cancelled) setSvg(result)
+			})
+			.catch(err => {
+				console.error('Diagram render error:', err)
+				if (!cancelled) setError(err?.message || '图表渲染失败')
+			})
+
+		return () => {
+			cancelled = true
+		}
+	}, [lang, code])
+
+	const toggle = svg ? (
+		<button
+			type='button'
+			onClick={() => setShowCode(value => !value)}
+			className='code-block-copy-btn'
+			aria-label={showCode ? 'Show diagram' : 'Show code'}
+			title={showCode ? '查看图表' : '查看源码'}>
+			{showCode ? <Workflow size={16} /> : <Code2 size={16} />}
+		</button>
+	) : null
+
+	return (
+		<CodeBlock code={code} actions={toggle}>
+			{svg && !showCode ? (
+				<div className='diagram-block' dangerouslySetInnerHTML={{ __html: svg }} />
+			) : (
+				<pre data-diagram={lang} title={error ?? undefined}>
+					<code>{code}</code>
+				</pre>
+			)}
+		</CodeBlock>
+	)
+}
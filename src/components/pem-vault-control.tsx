@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'motion/react'
+import { KeyRound, Lock, LockOpen } from 'lucide-react'
+import { toast } from 'sonner'
+import { useAuthStore } from '@/hooks/use-auth'
+import { CONTENT_STORE } from '@/consts'
+import { cn } from '@/lib/utils'
+import { PemVaultDialog } from './pem-vault-dialog'
+
+// 无操作超过该时间后自动锁定私钥
+const VAULT_IDLE_TIMEOUT = 15 * 60 * 1000
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const
+
+/**
+ * 私钥保险库入口：导入私钥后可加密保存，之后每次会话输入口令解锁
+ */
+export function PemVaultControl({ className }: { className?: string }) {
+	const { privateKey, hasVault, lockVault } = useAuthStore()
+	const [dialogMode, setDialogMode] = useState<'create' | 'unlock' | null>(null)
+	const unlocked = hasVault && !!privateKey
+
+	useEffect(() => {
+		if (!unlocked) return
+
+		let timer = setTimeout(onIdle, VAULT_IDLE_TIMEOUT)
+		function onIdle() {
+			lockVault()
+			toast.info('长时间未操作，私钥已自动锁定')
+		}
+		const resetTimer = () => {
+			clearTimeout(timer)
+			timer = setTimeout(onIdle, VAULT_IDLE_TIMEOUT)
+		}
+
+		ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }))
+		return () => {
+			clearTimeout(timer)
+			ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer))
+		}
+	}, [unlocked, lockVault])
+
+	if (CONTENT_STORE !== 'github') return null
+	if (!hasVault && !privateKey) return null
+
+	const handleClick = () => {
+		if (unlocked) {
+			lockVault()
+			toast.success('私钥已锁定')
+		} else {
+			setDialogMode(hasVault ? 'unlock' : 'create')
+		}
+	}
+
+	const Icon = unlocked ? LockOpen : hasVault ? Lock : KeyRound
+	const label = unlocked ? '锁定私钥' : hasVault ? '解锁私钥' : '用口令保护私钥'
+
+	return (
+		<>
+			<motion.button
+				initial={{ opacity: 0, scale: 0.4 }}
+				animate={{ opacity: 1, scale: 1 }}
+				whileHover={{ scale: 1.05 }}
+				whileTap={{ scale: 0.95 }}
+				onClick={handleClick}
+				title={label}
+				aria-label={label}
+				className={cn('card text-secondary static rounded-full p-3', className)}>
+				<Icon className='size-4' />
+			</motion.button>
+
+			<PemVaultDialog mode={dialogMode} onClose={() => setDialogMode(null)} />
+		</>
+	)
+}
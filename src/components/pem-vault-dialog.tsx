@@ -0,0 +1,111 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { DialogModal } from '@/components/dialog-modal'
+import { useAuthStore } from '@/hooks/use-auth'
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+interface PemVaultDialogProps {
+	mode: 'create' | 'unlock' | null
+	onClose: () => void
+}
+
+export function PemVaultDialog({ mode, onClose }: PemVaultDialogProps) {
+	const { createVault, unlockVault, removeVault } = useAuthStore()
+	const [passphrase, setPassphrase] = useState('')
+	const [confirmation, setConfirmation] = useState('')
+	const [submitting, setSubmitting] = useState(false)
+
+	useEffect(() => {
+		setPassphrase('')
+		setConfirmation('')
+	}, [mode])
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+		if (mode === 'create') {
+			if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+				toast.error(`口令至少 ${MIN_PASSPHRASE_LENGTH} 位`)
+				return
+			}
+			if (passphrase !== confirmation) {
+				toast.error('两次输入的口令不一致')
+				return
+			}
+		}
+
+		try {
+			setSubmitting(true)
+			if (mode === 'create') {
+				await createVault(passphrase)
+				toast.success('私钥已加密保存，下次使用时输入口令解锁')
+			} else {
+				await unlockVault(passphrase)
+				toast.success('私钥已解锁')
+			}
+			onClose()
+		} catch (error: any) {
+			toast.error(error?.message || '操作失败')
+		} finally {
+			setSubmitting(false)
+		}
+	}
+
+	const handleRemove = async () => {
+		if (!window.confirm('删除保存的私钥吗？之后需要重新导入密钥。')) return
+		await removeVault()
+		toast.success('已删除保存的私钥')
+		onClose()
+	}
+
+	return (
+		<DialogModal open={!!mode} onClose={onClose} className='card w-[400px] max-w-[90vw] rounded-2xl p-6'>
+			<form onSubmit={handleSubmit}>
+				<div className='mb-3 text-lg font-semibold'>{mode === 'create' ? '用口令保护私钥' : '解锁私钥'}</div>
+				<p className='text-secondary mb-4 text-sm'>
+					{mode === 'create' ? '私钥会用口令加密后保存在本浏览器中，口令不会被保存。长时间未操作时自动锁定。' : '输入口令以解锁本浏览器中保存的私钥。'}
+				</p>
+				<div className='space-y-2'>
+					<input
+						type='password'
+						autoFocus
+						autoComplete={mode === 'create' ? 'new-password' : 'current-password'}
+						placeholder='口令'
+						className='bg-card w-full rounded-lg border px-3 py-2 text-sm'
+						value={passphrase}
+						onChange={e => setPassphrase(e.target.value)}
+					/>
+					{mode === 'create' && (
+						<input
+							type='password'
+							autoComplete='new-password'
+							placeholder='再次输入口令'
+							className='bg-card w-full rounded-lg border px-3 py-2 text-sm'
+							value={confirmation}
+							onChange={e => setConfirmation(e.target.value)}
+						/>
+					)}
+				</div>
+				<div className='mt-6 flex items-center justify-between gap-2'>
+					{mode === 'unlock' ? (
+						<button type='button' onClick={handleRemove} className='text-secondary text-xs hover:text-red-600'>
+							忘记口令？删除保存的私钥
+						</button>
+					) : (
+						<span />
+					)}
+					<div className='flex gap-2'>
+						<button type='button' onClick={onClose} className='bg-card rounded-xl border px-4 py-2 text-sm'>
+							取消
+						</button>
+						<button type='submit' disabled={submitting || !passphrase} className='brand-btn px-4'>
+							{submitting ? '处理中...' : mode === 'create' ? '加密保存' : '解锁'}
+						</button>
+					</div>
+				</div>
+			</form>
+		</DialogModal>
+	)
+}
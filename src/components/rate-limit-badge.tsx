@@ -0,0 +1,26 @@
+'use client'
+
+import dayjs from 'dayjs'
+import { useRateLimitStore } from '@/hooks/use-rate-limit'
+import { cn } from '@/lib/utils'
+
+export function RateLimitBadge({ className }: { className?: string }) {
+	const { limit, remaining, resetAt, retryingUntil } = useRateLimitStore()
+
+	if (limit === null || remaining === null) return null
+
+	const low = remaining < limit * 0.1
+	const resetText = resetAt ? `${dayjs(resetAt).format('HH:mm')} 重置` : ''
+
+	return (
+		<div
+			title={`GitHub API 剩余额度 ${remaining}/${limit}${resetText ? `，${resetText}` : ''}`}
+			className={cn(
+				'rounded-lg border px-3 py-2 text-xs tabular-nums',
+				low || retryingUntil ? 'border-red-200 bg-red-50 text-red-600' : 'bg-card text-secondary',
+				className
+			)}>
+			{retryingUntil ? `限流中，${dayjs(retryingUntil).format('HH:mm:ss')} 后重试` : `API ${remaining}/${limit}`}
+		</div>
+	)
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'motion/react'
+import { toast } from 'sonner'
+import { Check, Globe, Pencil, Plus, Trash2 } from 'lucide-react'
+import { DialogModal } from '@/components/dialog-modal'
+import { getAllSites, isDefaultSite, useSiteRegistry, type SiteConfig, type SiteInput } from '@/hooks/use-site-registry'
+import { CONTENT_STORE, GITHUB_CONFIG } from '@/consts'
+import { cn } from '@/lib/utils'
+
+const EMPTY_SITE: SiteInput = { name: '', owner: '', repo: '', branch: 'main', appId: '' }
+
+const FIELDS: { key: keyof SiteInput; label: string; placeholder: string }[] = [
+	{ key: 'name', label: '名称', placeholder: '可选，默认 owner/repo' },
+	{ key: 'owner', label: 'Owner', placeholder: 'GitHub 用户或组织' },
+	{ key: 'repo', label: 'Repo', placeholder: '仓库名' },
+	{ key: 'branch', label: '分支', placeholder: 'main' },
+	{ key: 'appId', label: 'App ID', placeholder: '使用访问令牌登录时可留空' }
+]
+
+/**
+ * 切换后刷新页面，让登录状态、SWR 缓存和编辑器状态按新站点重新初始化
+ */
+const reloadForSite = () => window.location.reload()
+
+export function SiteSwitcher({ className }: { className?: string }) {
+	const { sites, activeId, addSite, updateSite, removeSite, setActiveSite } = useSiteRegistry()
+	const [open, setOpen] = useState(false)
+	const [editingId, setEditingId] = useState<string | null>(null)
+	const [draft, setDraft] = useState<SiteInput | null>(null)
+
+	if (CONTENT_STORE !== 'github') return null
+
+	const allSites = getAllSites(sites)
+	const activeSite = allSites.find(site => site.id === activeId) ?? allSites[0]
+
+	const closeForm = () => {
+		setEditingId(null)
+		setDraft(null)
+	}
+
+	const handleSwitch = (site: SiteConfig) => {
+		if (site.id === activeSite.id) return
+		if (!window.confirm(`切换到「${site.name}」吗？未保存的修改会保留在本地草稿中。`)) return
+		setActiveSite(site.id)
+		reloadForSite()
+	}
+
+	const handleEdit = (site: SiteConfig) => {
+		setEditingId(site.id)
+		setDraft({ name: site.name, owner: site.owner, repo: site.repo, branch: site.branch, appId: site.appId })
+	}
+
+	const handleRemove = (site: SiteConfig) => {
+		if (!window.confirm(`删除站点「${site.name}」吗？该站点的本地草稿和登录信息不会再被使用。`)) return
+		const wasActive = site.id === activeSite.id
+		removeSite(site.id)
+		if (wasActive) reloadForSite()
+	}
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault()
+		if (!draft) return
+
+		const site: SiteInput = {
+			name: draft.name.trim() || `${draft.owner.trim()}/${draft.repo.trim()}`,
+			owner: draft.owner.trim(),
+			repo: draft.repo.trim(),
+			branch: draft.branch.trim() || 'main',
+			appId: draft.appId.trim()
+		}
+		if (!site.owner || !site.repo) {
+			toast.error('请填写 owner 和 repo')
+			return
+		}
+		if (allSites.some(item => item.id !== editingId && item.owner === site.owner && item.repo === site.repo && item.branch === site.branch)) {
+			toast.error('该站点已存在')
+			return
+		}
+
+		if (editingId) {
+			updateSite(editingId, site)
+			closeForm()
+			toast.success('站点已更新')
+			if (editingId === activeSite.id) reloadForSite()
+		} else {
+			addSite(site)
+			closeForm()
+			toast.success('站点已添加')
+		}
+	}
+
+	return (
+		<>
+			<motion.button
+				initial={{ opacity: 0, scale: 0.6 }}
+				animate={{ opacity: 1, scale: 1 }}
+				whileHover={{ scale: 1.05 }}
+				whileTap={{ scale: 0.95 }}
+				className={cn('bg-card flex max-w-[200px] items-center gap-2 rounded-xl border px-4 py-2 text-sm', className)}
+				title={`${activeSite.owner}/${activeSite.repo}@${activeSite.branch}`}
+				onClick={() => setOpen(true)}>
+				<Globe className='size-4 shrink-0' />
+				<span className='truncate'>{activeSite.name}</span>
+			</motion.button>
+
+			<DialogModal
+				open={open}
+				onClose={() => {
+					setOpen(false)
+					closeForm()
+				}}
+				className='card w-[480px] max-w-[90vw] rounded-2xl p-6'>
+				<div className='mb-4 text-lg font-semibold'>切换站点</div>
+
+				<ul className='space-y-2'>
+					{allSites.map(site => (
+						<li
+							key={site.id}
+							className={cn('bg-card flex items-center gap-3 rounded-xl border px-4 py-2 text-sm', site.id === activeSite.id && 'border-brand')}>
+							<button type='button' onClick={() => handleSwitch(site)} className='min-w-0 flex-1 text-left'>
+								<div className='truncate font-medium'>{site.name}</div>
+								<div className='text-secondary truncate font-mono text-xs'>
+									{site.owner}/{site.repo}@{site.branch}
+								</div>
+							</button>
+							{site.id === activeSite.id && <Check className='text-brand size-4 shrink-0' />}
+							{!isDefaultSite(site) && (
+								<>
+									<button type='button' onClick={() => handleEdit(site)} className='text-secondary hover:text-brand' aria-label='编辑站点'>
+										<Pencil className='size-4' />
+									</button>
+									<button type='button' onClick={() => handleRemove(site)} className='text-secondary hover:text-red-600' aria-label='删除站点'>
+										<Trash2 className='size-4' />
+									</button>
+								</>
+							)}
+						</li>
+					))}
+				</ul>
+
+				{draft ? (
+					<form onSubmit={handleSubmit} className='mt-4 space-y-3 text-sm'>
+						{FIELDS.map(field => (
+							<label key={field.key} className='flex items-center gap-3'>
+								<span className='text-secondary w-16 shrink-0'>{field.label}</span>
+								<input
+									className='bg-card w-full rounded-lg border px-3 py-2'
+									placeholder={field.placeholder}
+									value={draft[field.key]}
+									onChange={e => setDraft({ ...draft, [field.key]: e.target.value })}
+								/>
+							</label>
+						))}
+						<div className='flex justify-end gap-2'>
+							<button type='button' onClick={closeForm} className='bg-card rounded-xl border px-4 py-2 text-sm'>
+								取消
+							</button>
+							<button type='submit' className='brand-btn px-6'>
+								{editingId ? '保存' : '添加'}
+							</button>
+						</div>
+					</form>
+				) : (
+					<button
+						type='button'
+						onClick={() => setDraft({ ...EMPTY_SITE, appId: GITHUB_CONFIG.APP_ID })}
+						className='text-secondary hover:text-brand mt-4 flex items-center gap-1 text-sm'>
+						<Plus className='size-4' />
+						添加站点
+					</button>
+				)}
+			</DialogModal>
+		</>
+	)
+}
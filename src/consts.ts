@@ -3,6 +3,12 @@ export const ANIMATION_DELAY = 0.1
 export const CARD_SPACING = 36
 export const CARD_SPACING_SM = 24
 export const BLOG_SLUG_KEY = process.env.BLOG_SLUG_KEY || ''
+// 站点正式地址，用于 canonical、Open Graph 和 RSS 中的绝对链接
+export const SITE_ORIGIN = (process.env.NEXT_PUBLIC_SITE_URL || 'https://www.yysuni.com').replace(/\/$/, '')
+// 站点时区：文章日期不带时区，定时发布与日期显示都按该时区解析
+export const SITE_TIMEZONE = process.env.NEXT_PUBLIC_SITE_TIMEZONE || 'Asia/Shanghai'
+// 写入提交审计信息，构建时由 next.config.ts 注入 package.json 版本
+export const CLIENT_VERSION = process.env.NEXT_PUBLIC_CLIENT_VERSION || 'dev'
 
 /**
  * GitHub 仓库配置
@@ -13,4 +19,13 @@ export const GITHUB_CONFIG = {
 	BRANCH: process.env.NEXT_PUBLIC_GITHUB_BRANCH || 'main',
 	APP_ID: process.env.NEXT_PUBLIC_GITHUB_APP_ID || '2539940',
 	ENCRYPT_KEY: process.env.NEXT_PUBLIC_GITHUB_ENCRYPT_KEY || 'wudishiduomejimo',
+	// GitHub App 的 Client ID，需在 App 设置中启用 Device Flow，留空则不提供 GitHub 登录
+	CLIENT_ID: process.env.NEXT_PUBLIC_GITHUB_CLIENT_ID || '',
 } as const
+
+/**
+ * 内容存储后端
+ * github: 通过 GitHub App 提交到仓库（默认）
+ * local: 仅 pnpm dev 下可用，直接写入本地 public/ 与 src/ 目录
+ */
+export const CONTENT_STORE: 'github' | 'local' = process.env.NEXT_PUBLIC_CONTENT_STORE === 'local' ? 'local' : 'github'
@@ -1,33 +1,78 @@
 import { create } from 'zustand'
-import { clearAllAuthCache, getAuthToken as getToken, hasAuth as checkAuth, getPemFromCache, savePemToCache } from '@/lib/auth'
+import {
+	authorizeUserToken,
+	clearAllAuthCache,
+	clearPemCache,
+	clearTokenCache,
+	getAuthToken as getToken,
+	getUserTokenSession,
+	hasAuth as checkAuth,
+	getPemFromCache,
+	savePemToCache,
+	type AuthProvider
+} from '@/lib/auth'
+import { createPemVault, deletePemVault, hasPemVault, unlockPemVault } from '@/lib/pem-vault'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
 interface AuthStore {
 	// State
 	isAuth: boolean
 	privateKey: string | null
+	// 本地是否有口令保护的私钥保险库
+	hasVault: boolean
+	// 当前授权方式，未授权时为 null
+	provider: AuthProvider | null
+	// 访问令牌 / GitHub 登录对应的账号
+	login: string | null
 
 	// Actions
 	setPrivateKey: (key: string) => void
+	signInWithToken: (token: string, provider: Exclude<AuthProvider, 'app'>, expiresAt?: number | null) => Promise<void>
+	signOut: () => void
 	clearAuth: () => void
 	refreshAuthState: () => void
 	getAuthToken: () => Promise<string>
+
+	// Vault
+	createVault: (passphrase: string) => Promise<void>
+	unlockVault: (passphrase: string) => Promise<void>
+	lockVault: () => void
+	removeVault: () => Promise<void>
 }
 
 export const useAuthStore = create<AuthStore>((set, get) => ({
 	isAuth: false,
 	privateKey: null,
+	hasVault: false,
+	provider: null,
+	login: null,
 
 	setPrivateKey: async (key: string) => {
-		set({ isAuth: true, privateKey: key })
+		// 从用户令牌切换回私钥时丢弃缓存的用户令牌
+		if (get().provider !== 'app') clearTokenCache()
+		set({ isAuth: true, privateKey: key, provider: 'app', login: null })
 		const { siteContent } = useConfigStore.getState()
-		if (siteContent?.isCachePem) {
+		// 已启用口令保险库时不再写入弱加密的会话缓存
+		if (siteContent?.isCachePem && !get().hasVault) {
 			await savePemToCache(key)
 		}
 	},
 
+	signInWithToken: async (token, provider, expiresAt = null) => {
+		const login = await authorizeUserToken(token, provider, expiresAt)
+		// 用户令牌与私钥互斥，避免之后又用私钥签发
+		clearPemCache()
+		set({ isAuth: true, privateKey: null, provider, login })
+	},
+
+	signOut: () => {
+		clearAllAuthCache()
+		set({ isAuth: false, privateKey: null, provider: null, login: null })
+	},
+
 	clearAuth: () => {
 		clearAllAuthCache()
-		set({ isAuth: false })
+		// 私钥仍在内存中时可以重新签发，保留授权方式
+		set(state => ({ isAuth: false, provider: state.privateKey ? 'app' : null, login: null }))
 	},
 
 	refreshAuthState: async () => {
@@ -38,12 +83,47 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
 		const token = await getToken()
 		get().refreshAuthState()
 		return token
+	},
+
+	createVault: async passphrase => {
+		const { privateKey } = get()
+		if (!privateKey) throw new Error('请先导入私钥')
+		await createPemVault(privateKey, passphrase)
+		// 保险库替代弱加密的会话缓存
+		clearPemCache()
+		set({ hasVault: true })
+	},
+
+	unlockVault: async passphrase => {
+		const key = await unlockPemVault(passphrase)
+		if (get().provider !== 'app') clearTokenCache()
+		set({ isAuth: true, privateKey: key, provider: 'app', login: null })
+	},
+
+	lockVault: () => {
+		get().signOut()
+	},
+
+	removeVault: async () => {
+		await deletePemVault()
+		set({ hasVault: false })
 	}
 }))
 
+hasPemVault().then(hasVault => {
+	if (hasVault) {
+		useAuthStore.setState({ hasVault })
+	}
+})
+
+const userTokenSession = getUserTokenSession()
+if (userTokenSession) {
+	useAuthStore.setState(userTokenSession)
+}
+
 getPemFromCache().then((key) => {
 	if (key) {
-		useAuthStore.setState({ privateKey: key })
+		useAuthStore.setState({ privateKey: key, provider: 'app' })
 	}
 })
 
@@ -1,44 +1,96 @@
+import { useEffect } from 'react'
 import useSWR from 'swr'
+import useSWRInfinite from 'swr/infinite'
 import { useAuthStore } from '@/hooks/use-auth'
+import { useSiteRegistry } from '@/hooks/use-site-registry'
 import type { BlogIndexItem } from '@/app/blog/types'
+import { getPublishTime, isPublicPost, isScheduledPost } from '@/lib/blog-schedule'
+import { BLOGS_INDEX_MANIFEST_PATH, LEGACY_BLOGS_INDEX_PATH, getShardPath, sortShardKeys, type BlogIndexManifest } from '@/lib/blog-index-shards'
+import { readSiteFile } from '@/lib/load-blog'
 
 export type { BlogIndexItem } from '@/app/blog/types'
 
-// 改进 fetcher，抛出状态码以便处理 404
-const fetcher = async (url: string) => {
-	const res = await fetch(url, { cache: 'no-store' })
-	if (!res.ok) {
-		const error: any = new Error('Fetch failed')
-		error.status = res.status
-		throw error
-	}
-	const data = await res.json()
+// [类型, 站点 id, 仓库路径]，按站点区分 SWR 缓存
+type SiteFileKey = [string, string, string]
+
+// 通过当前站点读取分片，与批量编辑、删除提交到的仓库保持一致
+const fetcher = async ([, , repoPath]: SiteFileKey): Promise<BlogIndexItem[]> => {
+	const text = await readSiteFile(repoPath)
+	if (text === null) return []
+	const data = JSON.parse(text)
 	return Array.isArray(data) ? data : []
 }
 
-export function useBlogIndex() {
+/**
+ * 读取 manifest 得到按年份倒序的分片路径，没有 manifest 时回退到旧版单文件索引
+ */
+const shardPathsFetcher = async ([, , repoPath]: SiteFileKey): Promise<string[]> => {
+	const text = await readSiteFile(repoPath)
+	if (text === null) return [LEGACY_BLOGS_INDEX_PATH]
+	const manifest: BlogIndexManifest = JSON.parse(text)
+	return sortShardKeys(Object.keys(manifest.shards || {})).map(getShardPath)
+}
+
+/**
+ * 按需加载索引分片，默认只加载最近一个年份，通过 loadMore / loadAll 加载更早的文章
+ */
+export function useBlogIndex({ initialShards = 1 }: { initialShards?: number } = {}) {
 	const { isAuth } = useAuthStore()
-	const { data, error, isLoading } = useSWR<BlogIndexItem[]>('/blogs/index.json', fetcher, {
-		revalidateOnFocus: false,
-		revalidateOnReconnect: true
-	})
+	const siteId = useSiteRegistry(state => state.activeId)
+	const { data: shardPaths, error: manifestError } = useSWR<string[]>(
+		['blog-index-manifest', siteId, BLOGS_INDEX_MANIFEST_PATH] as SiteFileKey,
+		shardPathsFetcher,
+		{
+			revalidateOnFocus: false,
+			revalidateOnReconnect: true
+		}
+	)
+	const { data, error, size, setSize } = useSWRInfinite<BlogIndexItem[]>(
+		index => (shardPaths?.[index] ? (['blog-index-shard', siteId, shardPaths[index]] as SiteFileKey) : null),
+		fetcher,
+		{
+			initialSize: initialShards,
+			revalidateFirstPage: false,
+			revalidateOnFocus: false
+		}
+	)
 
-	let result = data || []
+	let result = (data || []).flat()
 	if (!isAuth) {
-		result = result.filter(item => !item.hidden)
+		// 访客看不到隐藏文章和未到发布时间的定时文章
+		const now = Date.now()
+		result = result.filter(item => isPublicPost(item, now))
 	}
 
+	const totalShards = shardPaths?.length ?? 0
+	const loadedShards = data?.length ?? 0
+	const hasMore = loadedShards < totalShards
+	const loading = (!shardPaths && !manifestError) || (totalShards > 0 && !data && !error)
+	const loadingMore = size > loadedShards && hasMore
+
 	return {
 		items: result,
-		loading: isLoading,
-		error
+		loading,
+		loadingMore,
+		hasMore,
+		loadMore: () => setSize(size + 1),
+		loadAll: () => setSize(totalShards),
+		error: manifestError || error
 	}
 }
 
 export function useLatestBlog() {
-	const { items, loading, error } = useBlogIndex()
+	const { items, loading, hasMore, loadingMore, loadMore, error } = useBlogIndex()
+
+	// 定时文章对管理员也不作为最新文章展示
+	const now = Date.now()
+	const published = items.filter(item => !isScheduledPost(item, now))
+	const latestBlog = published.length > 0 ? published.sort((a, b) => getPublishTime(b) - getPublishTime(a))[0] : null
 
-	const latestBlog = items.length > 0 ? items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0] : null
+	// 最近的分片里全是定时或隐藏文章时，继续加载更早的分片
+	useEffect(() => {
+		if (!loading && !loadingMore && !latestBlog && hasMore) loadMore()
+	}, [loading, loadingMore, latestBlog, hasMore, loadMore])
 
 	return {
 		blog: latestBlog,
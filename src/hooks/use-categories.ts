@@ -1,28 +1,24 @@
 'use client'
 
 import useSWR from 'swr'
+import { useSiteRegistry } from '@/hooks/use-site-registry'
+import { BLOG_CATEGORIES_PATH, parseCategories, type CategoriesConfig } from '@/lib/blog-categories'
+import { readSiteFile } from '@/lib/load-blog'
 
-export type CategoriesConfig = {
-	categories: string[]
-}
+export type { CategoriesConfig } from '@/lib/blog-categories'
 
-const fetcher = async (url: string): Promise<CategoriesConfig> => {
-	const res = await fetch(url, { cache: 'no-store' })
-	if (!res.ok) {
+const fetcher = async ([, , repoPath]: [string, string, string]): Promise<CategoriesConfig> => {
+	const text = await readSiteFile(repoPath)
+	if (text === null) {
 		return { categories: [] }
 	}
-	const data = await res.json()
-	if (Array.isArray(data)) {
-		return { categories: data.filter((item): item is string => typeof item === 'string') }
-	}
-	if (Array.isArray((data as any)?.categories)) {
-		return { categories: (data as any).categories.filter((item: unknown): item is string => typeof item === 'string') }
-	}
-	return { categories: [] }
+	return { categories: parseCategories(JSON.parse(text)) }
 }
 
 export function useCategories() {
-	const { data, error, isLoading } = useSWR<CategoriesConfig>('/blogs/categories.json', fetcher, {
+	// 与批量编辑提交到的仓库一致，按站点区分缓存
+	const siteId = useSiteRegistry(state => state.activeId)
+	const { data, error, isLoading } = useSWR<CategoriesConfig>(['blog-categories', siteId, BLOG_CATEGORIES_PATH], fetcher, {
 		revalidateOnFocus: false,
 		revalidateOnReconnect: true
 	})
@@ -33,4 +29,3 @@ export function useCategories() {
 		error
 	}
 }
-
@@ -0,0 +1,38 @@
+import { create } from 'zustand'
+
+interface RateLimitStore {
+	// State
+	limit: number | null
+	remaining: number | null
+	// 额度重置时间（毫秒时间戳）
+	resetAt: number | null
+	// 正在等待重试的截止时间（毫秒时间戳）
+	retryingUntil: number | null
+
+	// Actions
+	updateFromHeaders: (headers: Headers) => void
+	setRetryingUntil: (until: number | null) => void
+}
+
+export const useRateLimitStore = create<RateLimitStore>(set => ({
+	limit: null,
+	remaining: null,
+	resetAt: null,
+	retryingUntil: null,
+
+	updateFromHeaders: (headers: Headers) => {
+		const limit = headers.get('x-ratelimit-limit')
+		const remaining = headers.get('x-ratelimit-remaining')
+		const reset = headers.get('x-ratelimit-reset')
+		if (limit === null || remaining === null) return
+		set({
+			limit: Number(limit),
+			remaining: Number(remaining),
+			resetAt: reset ? Number(reset) * 1000 : null
+		})
+	},
+
+	setRetryingUntil: (until: number | null) => {
+		set({ retryingUntil: until })
+	}
+}))
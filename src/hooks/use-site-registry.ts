@@ -0,0 +1,92 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { GITHUB_CONFIG } from '@/consts'
+
+/**
+ * 可切换的站点（仓库）配置
+ * 构建时的 GITHUB_CONFIG 作为默认站点，其余站点保存在浏览器本地，
+ * 读取文章、签发令牌和提交都使用当前站点
+ */
+export type SiteConfig = {
+	id: string
+	name: string
+	owner: string
+	repo: string
+	branch: string
+	appId: string
+}
+
+export type SiteInput = Omit<SiteConfig, 'id'>
+
+export const DEFAULT_SITE_ID = 'default'
+
+export const DEFAULT_SITE: SiteConfig = {
+	id: DEFAULT_SITE_ID,
+	name: `${GITHUB_CONFIG.OWNER}/${GITHUB_CONFIG.REPO}`,
+	owner: GITHUB_CONFIG.OWNER,
+	repo: GITHUB_CONFIG.REPO,
+	branch: GITHUB_CONFIG.BRANCH,
+	appId: GITHUB_CONFIG.APP_ID
+}
+
+interface SiteRegistryStore {
+	// 不包含默认站点
+	sites: SiteConfig[]
+	activeId: string
+
+	addSite: (site: SiteInput) => SiteConfig
+	updateSite: (id: string, site: SiteInput) => void
+	removeSite: (id: string) => void
+	setActiveSite: (id: string) => void
+}
+
+export const useSiteRegistry = create<SiteRegistryStore>()(
+	persist(
+		(set, get) => ({
+			sites: [],
+			activeId: DEFAULT_SITE_ID,
+
+			addSite: site => {
+				const created = { ...site, id: crypto.randomUUID() }
+				set(state => ({ sites: [...state.sites, created] }))
+				return created
+			},
+
+			updateSite: (id, site) => {
+				set(state => ({ sites: state.sites.map(item => (item.id === id ? { ...site, id } : item)) }))
+			},
+
+			removeSite: id => {
+				set(state => ({
+					sites: state.sites.filter(item => item.id !== id),
+					activeId: state.activeId === id ? DEFAULT_SITE_ID : state.activeId
+				}))
+			},
+
+			setActiveSite: id => {
+				if (id !== DEFAULT_SITE_ID && !get().sites.some(item => item.id === id)) return
+				set({ activeId: id })
+			}
+		}),
+		{
+			name: 'site-registry'
+		}
+	)
+)
+
+export const getAllSites = (sites: SiteConfig[]): SiteConfig[] => [DEFAULT_SITE, ...sites]
+
+export function getActiveSite(): SiteConfig {
+	const { sites, activeId } = useSiteRegistry.getState()
+	return sites.find(site => site.id === activeId) ?? DEFAULT_SITE
+}
+
+export const isDefaultSite = (site: SiteConfig = getActiveSite()): boolean => site.id === DEFAULT_SITE_ID
+
+/**
+ * 按站点区分的本地存储 key，默认站点沿用原 key，已有的缓存不受影响
+ */
+export function getSiteStorageKey(key: string): string {
+	const site = getActiveSite()
+	return isDefaultSite(site) ? key : `${key}@${site.id}`
+}
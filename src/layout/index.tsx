@@ -9,6 +9,9 @@ import { CircleCheckIcon, InfoIcon, Loader2Icon, OctagonXIcon, TriangleAlertIcon
 import { useSize, useSizeInit } from '@/hooks/use-size'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
 import { ScrollTopButton } from '@/components/scroll-top-button'
+import { PemVaultControl } from '@/components/pem-vault-control'
+import { AuthStatus } from '@/components/auth-status'
+import { SiteSwitcher } from '@/components/site-switcher'
 
 export default function Layout({ children }: PropsWithChildren) {
 	useCenterInit()
@@ -57,6 +60,11 @@ export default function Layout({ children }: PropsWithChildren) {
 				<NavCard />
 			</main>
 
+			<div className='fixed bottom-8 left-6 z-50 flex items-center gap-2'>
+				<SiteSwitcher className='shadow-md' />
+				<AuthStatus className='shadow-md' />
+				<PemVaultControl className='shadow-md' />
+			</div>
 			{maxSM && init && <ScrollTopButton className='bg-brand/20 fixed right-6 bottom-8 z-50 shadow-md' />}
 		</>
 	)
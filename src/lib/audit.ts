@@ -0,0 +1,138 @@
+'use client'
+
+import { CLIENT_VERSION } from '@/consts'
+import { useAuthStore } from '@/hooks/use-auth'
+
+/**
+ * 提交审计信息
+ * 通过 UI 产生的每个提交在提交信息末尾附加 git trailer，记录操作类型、影响的文章与文件、操作者和客户端版本，
+ * 活动时间线页面读取提交历史并解析这些 trailer
+ */
+
+export type AuditSection = 'blog' | 'pictures' | 'projects' | 'share' | 'bloggers' | 'snippets' | 'about' | 'site'
+
+export type AuditOperation =
+	| 'blog.create'
+	| 'blog.update'
+	| 'blog.rename'
+	| 'blog.restore'
+	| 'blog.delete'
+	| 'blog.draft'
+	| 'blog.merge'
+	| 'blog.batch-delete'
+	| 'blog.index-edit'
+	| 'pictures.update'
+	| 'projects.update'
+	| 'share.update'
+	| 'bloggers.update'
+	| 'snippets.update'
+	| 'about.update'
+	| 'site.update'
+
+export type AuditInfo = {
+	operation: AuditOperation
+	slugs?: string[]
+}
+
+export type AuditRecord = {
+	operation: AuditOperation | null
+	section: AuditSection | null
+	slugs: string[]
+	paths: string[]
+	// 省略未列出的文件数
+	omittedPaths: number
+	actor: string | null
+	clientVersion: string | null
+}
+
+export const AUDIT_SECTION_LABELS: Record<AuditSection, string> = {
+	blog: '文章',
+	pictures: '图床',
+	projects: '项目',
+	share: '分享',
+	bloggers: '博主',
+	snippets: '句子',
+	about: '关于',
+	site: '站点配置'
+}
+
+const TRAILER_OPERATION = 'Content-Operation'
+const TRAILER_SLUGS = 'Content-Slugs'
+const TRAILER_PATHS = 'Content-Paths'
+const TRAILER_ACTOR = 'Content-Actor'
+const TRAILER_CLIENT = 'Client-Version'
+
+// 图片较多时只列出前若干个文件，避免提交信息过长
+const MAX_TRAILER_PATHS = 30
+
+export const getOperationSection = (operation: AuditOperation): AuditSection => operation.split('.')[0] as AuditSection
+
+function describeActor(): string | null {
+	const { provider, login } = useAuthStore.getState()
+	if (!provider) return null
+	return login ? `${login} (${provider})` : provider
+}
+
+/**
+ * 生成附加在提交信息末尾的 trailer（包含前导空行）
+ */
+export function formatAuditTrailer(info: AuditInfo, paths: string[]): string {
+	const sortedPaths = [...new Set(paths)].sort()
+	const listedPaths = sortedPaths.slice(0, MAX_TRAILER_PATHS)
+	const omitted = sortedPaths.length - listedPaths.length
+
+	const lines = [`${TRAILER_OPERATION}: ${info.operation}`]
+	if (info.slugs?.length) lines.push(`${TRAILER_SLUGS}: ${info.slugs.join(', ')}`)
+	if (listedPaths.length) lines.push(`${TRAILER_PATHS}: ${listedPaths.join(', ')}${omitted > 0 ? `, ...(+${omitted})` : ''}`)
+	const actor = describeActor()
+	if (actor) lines.push(`${TRAILER_ACTOR}: ${actor}`)
+	lines.push(`${TRAILER_CLIENT}: ${CLIENT_VERSION}`)
+
+	return `\n\n${lines.join('\n')}`
+}
+
+const splitList = (value: string | undefined): string[] =>
+	(value ?? '')
+		.split(',')
+		.map(item => item.trim())
+		.filter(Boolean)
+
+// 旧提交没有 trailer，按提交标题推断所属板块
+const LEGACY_SUBJECT_SECTIONS: [RegExp, AuditSection][] = [
+	[/^(新增文章|更新文章|删除文章|批量删除文章|重命名文章|恢复文章|发布文章|更新索引|删除:)/, 'blog'],
+	[/^更新图床/, 'pictures'],
+	[/^更新项目/, 'projects'],
+	[/^更新分享/, 'share'],
+	[/^更新博主/, 'bloggers'],
+	[/^更新句子/, 'snippets'],
+	[/^更新关于/, 'about'],
+	[/^更新站点配置/, 'site']
+]
+
+/**
+ * 解析提交信息中的审计 trailer，没有 trailer 的旧提交按标题推断板块
+ */
+export function parseAuditTrailer(message: string): AuditRecord {
+	const trailers: Record<string, string> = {}
+	for (const line of message.split('\n')) {
+		const match = line.match(/^([A-Za-z-]+): (.*)$/)
+		if (match) trailers[match[1]] = match[2].trim()
+	}
+
+	const operation = (trailers[TRAILER_OPERATION] as AuditOperation | undefined) ?? null
+	const subject = message.split('\n')[0]
+	const section = operation ? getOperationSection(operation) : (LEGACY_SUBJECT_SECTIONS.find(([pattern]) => pattern.test(subject))?.[1] ?? null)
+
+	const rawPaths = splitList(trailers[TRAILER_PATHS])
+	const omittedMatch = rawPaths.at(-1)?.match(/^\.\.\.\(\+(\d+)\)$/)
+
+	return {
+		operation,
+		section,
+		slugs: splitList(trailers[TRAILER_SLUGS]),
+		paths: omittedMatch ? rawPaths.slice(0, -1) : rawPaths,
+		omittedPaths: omittedMatch ? Number(omittedMatch[1]) : 0,
+		actor: trailers[TRAILER_ACTOR] ?? null,
+		clientVersion: trailers[TRAILER_CLIENT] ?? null
+	}
+}
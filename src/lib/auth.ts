@@ -1,34 +1,66 @@
-import { createInstallationToken, getInstallationId, signAppJwt } from './github-client'
-import { GITHUB_CONFIG } from '@/consts'
+import { canPushToRepo, createInstallationToken, getAuthenticatedUser, getInstallationId, signAppJwt } from './github-client'
+import { CONTENT_STORE, GITHUB_CONFIG } from '@/consts'
 import { useAuthStore } from '@/hooks/use-auth'
+import { getActiveSite, getSiteStorageKey } from '@/hooks/use-site-registry'
 import { toast } from 'sonner'
 import { decrypt,encrypt } from './aes256-util'
 
 const GITHUB_TOKEN_CACHE_KEY = 'github_token'
 const GITHUB_PEM_CACHE_KEY = 'p_info'
+// 距离过期不足该时间时提前重新签发，避免提交进行到一半令牌过期
+const TOKEN_REFRESH_MARGIN = 5 * 60 * 1000
 
-function getTokenFromCache(): string | null {
+/**
+ * 授权方式
+ * app: GitHub App 私钥签发的安装令牌
+ * pat: 用户粘贴的细粒度访问令牌
+ * oauth: GitHub 设备登录得到的用户访问令牌
+ */
+export type AuthProvider = 'app' | 'pat' | 'oauth'
+
+type CachedToken = {
+	token: string
+	// null 表示过期时间未知（旧版缓存只保存了令牌字符串）或永不过期
+	expiresAt: number | null
+	provider: AuthProvider
+	// 用户令牌对应的 GitHub 账号
+	login?: string
+}
+
+function getTokenFromCache(): CachedToken | null {
 	if (typeof sessionStorage === 'undefined') return null
 	try {
-		return sessionStorage.getItem(GITHUB_TOKEN_CACHE_KEY)
+		const raw = sessionStorage.getItem(getSiteStorageKey(GITHUB_TOKEN_CACHE_KEY))
+		if (!raw) return null
+		try {
+			const parsed = JSON.parse(raw)
+			if (parsed && typeof parsed.token === 'string') {
+				return { token: parsed.token, expiresAt: parsed.expiresAt ?? null, provider: parsed.provider ?? 'app', login: parsed.login }
+			}
+		} catch {
+			// 旧版缓存直接保存的令牌字符串
+		}
+		return { token: raw, expiresAt: null, provider: 'app' }
 	} catch {
 		return null
 	}
 }
 
-function saveTokenToCache(token: string): void {
+function saveTokenToCache(token: CachedToken): void {
 	if (typeof sessionStorage === 'undefined') return
 	try {
-		sessionStorage.setItem(GITHUB_TOKEN_CACHE_KEY, token)
+		sessionStorage.setItem(getSiteStorageKey(GITHUB_TOKEN_CACHE_KEY), JSON.stringify(token))
 	} catch (error) {
 		console.error('Failed to save token to cache:', error)
 	}
 }
 
-function clearTokenCache(): void {
+const isExpired = (cached: CachedToken, margin = 0): boolean => cached.expiresAt !== null && cached.expiresAt - margin <= Date.now()
+
+export function clearTokenCache(): void {
 	if (typeof sessionStorage === 'undefined') return
 	try {
-		sessionStorage.removeItem(GITHUB_TOKEN_CACHE_KEY)
+		sessionStorage.removeItem(getSiteStorageKey(GITHUB_TOKEN_CACHE_KEY))
 	} catch (error) {
 		console.error('Failed to clear token cache:', error)
 	}
@@ -38,7 +70,7 @@ export async function getPemFromCache(): Promise<string | null> {
 	if (typeof sessionStorage === 'undefined') return null
 	try {
 		// 解密缓存中的 pem
-		const encryptedPem = sessionStorage.getItem(GITHUB_PEM_CACHE_KEY)
+		const encryptedPem = sessionStorage.getItem(getSiteStorageKey(GITHUB_PEM_CACHE_KEY))
 		if (!encryptedPem) return null
 		return await decrypt(encryptedPem, GITHUB_CONFIG.ENCRYPT_KEY)
 	} catch {
@@ -51,16 +83,16 @@ export async function savePemToCache(pem: string): Promise<void> {
 	try {
 		// 加密 pem 后存储
 		const encryptedPem = await encrypt(pem, GITHUB_CONFIG.ENCRYPT_KEY)
-		sessionStorage.setItem(GITHUB_PEM_CACHE_KEY, encryptedPem)
+		sessionStorage.setItem(getSiteStorageKey(GITHUB_PEM_CACHE_KEY), encryptedPem)
 	} catch (error) {
 		console.error('Failed to save pem to cache:', error)
 	}
 }
 
-function clearPemCache(): void {
+export function clearPemCache(): void {
 	if (typeof sessionStorage === 'undefined') return
 	try {
-		sessionStorage.removeItem(GITHUB_PEM_CACHE_KEY)
+		sessionStorage.removeItem(getSiteStorageKey(GITHUB_PEM_CACHE_KEY))
 	} catch (error) {
 		console.error('Failed to clear pem cache:', error)
 	}
@@ -71,39 +103,117 @@ export function clearAllAuthCache(): void {
 	clearPemCache()
 }
 
+/**
+ * 当前缓存的用户令牌会话（访问令牌或 GitHub 登录），用于页面加载时恢复授权方式
+ */
+export function getUserTokenSession(): { provider: Exclude<AuthProvider, 'app'>; login: string | null } | null {
+	const cachedToken = getTokenFromCache()
+	if (!cachedToken || cachedToken.provider === 'app' || isExpired(cachedToken)) return null
+	return { provider: cachedToken.provider, login: cachedToken.login ?? null }
+}
+
 export async function hasAuth(): Promise<boolean> {
-	return !!getTokenFromCache() || !!(await getPemFromCache())
+	// 本地存储模式不需要 GitHub 授权
+	if (CONTENT_STORE === 'local') return true
+	const cachedToken = getTokenFromCache()
+	return (!!cachedToken && !isExpired(cachedToken)) || !!(await getPemFromCache())
+}
+
+let issuingToken: Promise<string> | null = null
+
+/**
+ * 用私钥签发 JWT 并换取新的安装令牌，并发调用共用同一次签发
+ */
+function issueInstallationToken(privateKey: string): Promise<string> {
+	if (!issuingToken) {
+		issuingToken = (async () => {
+			const site = getActiveSite()
+			toast.info('正在签发 JWT...')
+			const jwt = signAppJwt(site.appId, privateKey)
+
+			toast.info('正在获取安装信息...')
+			const installationId = await getInstallationId(jwt, site.owner, site.repo)
+
+			toast.info('正在创建安装令牌...')
+			const token = await createInstallationToken(jwt, installationId)
+
+			saveTokenToCache({ ...token, provider: 'app' })
+			return token.token
+		})().finally(() => {
+			issuingToken = null
+		})
+	}
+	return issuingToken
 }
 
 /**
  * 统一的认证 Token 获取
- * 自动处理缓存、签发等逻辑
- * @returns GitHub Installation Token
+ * 自动处理缓存、签发等逻辑，令牌临近过期时用缓存的私钥重新签发
+ * @returns GitHub Installation Token，或访问令牌 / GitHub 登录得到的用户令牌
  */
 export async function getAuthToken(): Promise<string> {
+	const privateKey = useAuthStore.getState().privateKey
+
 	// 1. 先尝试从缓存获取 token
 	const cachedToken = getTokenFromCache()
-	if (cachedToken) {
-		toast.info('使用缓存的令牌...')
-		return cachedToken
+	// 用户令牌无法自动续期，过期后需要重新登录
+	if (cachedToken && cachedToken.provider !== 'app') {
+		if (!isExpired(cachedToken)) return cachedToken.token
+		clearTokenCache()
+		throw new Error('登录已过期，请重新登录')
+	}
+	if (cachedToken && !isExpired(cachedToken, TOKEN_REFRESH_MARGIN)) {
+		// 每个请求都会读取令牌，复用同一个 toast 避免刷屏
+		toast.info('使用缓存的令牌...', { id: 'auth-token' })
+		return cachedToken.token
+	}
+	// 即将过期但没有私钥可用于重新签发时，继续使用到过期为止
+	if (cachedToken && !isExpired(cachedToken) && !privateKey) {
+		return cachedToken.token
 	}
 
 	// 2. 获取私钥（从缓存）
-	const privateKey = useAuthStore.getState().privateKey
 	if (!privateKey) {
 		throw new Error('需要先设置私钥。请使用 useAuth().setPrivateKey()')
 	}
 
-	toast.info('正在签发 JWT...')
-	const jwt = signAppJwt(GITHUB_CONFIG.APP_ID, privateKey)
+	return issueInstallationToken(privateKey)
+}
 
-	toast.info('正在获取安装信息...')
-	const installationId = await getInstallationId(jwt, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO)
+/**
+ * 请求返回 401 时调用：令牌已被其他请求刷新则直接返回新令牌，否则重新签发
+ * @param staleToken 被拒绝的令牌
+ * @returns 新令牌，无法重新签发时返回 null
+ */
+export async function refreshAuthToken(staleToken: string): Promise<string | null> {
+	const cachedToken = getTokenFromCache()
+	if (cachedToken && cachedToken.token !== staleToken && !isExpired(cachedToken)) {
+		return cachedToken.token
+	}
 
-	toast.info('正在创建安装令牌...')
-	const token = await createInstallationToken(jwt, installationId)
+	clearTokenCache()
+	const privateKey = useAuthStore.getState().privateKey
+	if (!privateKey) return null
 
-	saveTokenToCache(token)
+	try {
+		return await issueInstallationToken(privateKey)
+	} catch (error) {
+		console.error('Failed to refresh installation token:', error)
+		return null
+	}
+}
+
+/**
+ * 校验用户令牌（访问令牌 / GitHub 登录）对当前仓库有写权限，通过后缓存为当前授权
+ * @returns 令牌对应的 GitHub 账号
+ */
+export async function authorizeUserToken(token: string, provider: Exclude<AuthProvider, 'app'>, expiresAt: number | null): Promise<string> {
+	const { owner, repo } = getActiveSite()
+	const user = await getAuthenticatedUser(token)
+	if (!(await canPushToRepo(token, owner, repo))) {
+		throw new Error(`${user.login} 没有 ${owner}/${repo} 的写入权限`)
+	}
 
-	return token
+	saveTokenToCache({ token, expiresAt: expiresAt ?? user.tokenExpiresAt, provider, login: user.login })
+	return user.login
 }
@@ -0,0 +1,43 @@
+import type { ContentStore } from '@/lib/content-store'
+
+export const BLOG_CATEGORIES_PATH = 'public/blogs/categories.json'
+
+export type CategoriesConfig = {
+	categories: string[]
+}
+
+/**
+ * 兼容旧格式：直接是字符串数组，或 { categories: [...] }
+ */
+export function parseCategories(data: unknown): string[] {
+	const list = Array.isArray(data) ? data : Array.isArray((data as any)?.categories) ? (data as any).categories : []
+	return list.filter((item: unknown): item is string => typeof item === 'string')
+}
+
+/**
+ * 把本地对分类列表的修改合并到最新的远程分类上
+ * 保留本地的顺序与增删，其他人新增的分类追加在末尾，其他人删除且本地未改动的分类不再写回
+ */
+export function mergeCategories(original: string[], next: string[], latest: string[]): string[] {
+	const originalSet = new Set(original)
+	const latestSet = new Set(latest)
+	const removed = new Set(original.filter(category => !next.includes(category)))
+
+	const merged = next.filter(category => latestSet.has(category) || !originalSet.has(category))
+	for (const category of latest) {
+		if (!removed.has(category) && !merged.includes(category)) merged.push(category)
+	}
+	return merged
+}
+
+export async function prepareBlogCategories(store: ContentStore, original: string[], next: string[], ref: string): Promise<string> {
+	let latest: string[] = []
+	try {
+		const txt = await store.readTextFile(BLOG_CATEGORIES_PATH, ref)
+		if (txt) latest = parseCategories(JSON.parse(txt))
+	} catch {
+		// ignore parse errors and start from empty list
+	}
+	const categories: CategoriesConfig = { categories: mergeCategories(original, next, latest) }
+	return JSON.stringify(categories, null, 2)
+}
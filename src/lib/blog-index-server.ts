@@ -0,0 +1,52 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { BlogIndexItem } from '@/app/blog/types'
+import {
+	BLOGS_INDEX_MANIFEST_PATH,
+	LEGACY_BLOGS_INDEX_PATH,
+	getShardPath,
+	sortIndexItems,
+	sortShardKeys,
+	toPublicUrl,
+	type BlogIndexManifest
+} from '@/lib/blog-index-shards'
+
+type ReadJson = <T>(repoPath: string) => Promise<T | null>
+
+const readFromDisk: ReadJson = async repoPath => {
+	try {
+		return JSON.parse(await fs.readFile(path.join(process.cwd(), repoPath), 'utf-8'))
+	} catch {
+		return null
+	}
+}
+
+const readFromOrigin =
+	(origin: string): ReadJson =>
+	async repoPath => {
+		try {
+			const res = await fetch(`${origin}${toPublicUrl(repoPath)}`)
+			return res.ok ? await res.json() : null
+		} catch {
+			return null
+		}
+	}
+
+async function readAllShards(readJson: ReadJson): Promise<BlogIndexItem[] | null> {
+	const manifest = await readJson<BlogIndexManifest>(BLOGS_INDEX_MANIFEST_PATH)
+	if (!manifest) return readJson<BlogIndexItem[]>(LEGACY_BLOGS_INDEX_PATH)
+
+	const shards = await Promise.all(sortShardKeys(Object.keys(manifest.shards)).map(key => readJson<BlogIndexItem[]>(getShardPath(key))))
+	return sortIndexItems(shards.flatMap(items => items || []))
+}
+
+/**
+ * 服务端读取完整文章索引（RSS、sitemap 等）
+ * 构建时直接读取 public 目录，运行时（如 Cloudflare Workers 没有文件系统）回退到通过站点地址获取
+ */
+export async function readBlogIndex(origin?: string): Promise<BlogIndexItem[]> {
+	const fromDisk = await readAllShards(readFromDisk)
+	if (fromDisk) return fromDisk
+	if (!origin) return []
+	return (await readAllShards(readFromOrigin(origin))) || []
+}
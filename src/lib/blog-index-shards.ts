@@ -0,0 +1,70 @@
+import type { BlogIndexItem } from '@/app/blog/types'
+
+/**
+ * 分片文章索引的存储结构，客户端和服务端共用
+ * public/blogs/index/manifest.json 记录各分片的文章数和 slug 所在分片，
+ * public/blogs/index/<年份>.json 为该年份的文章列表
+ * 旧版单文件 public/blogs/index.json 仍可读取，首次写入时自动迁移
+ */
+export const BLOGS_INDEX_DIR = 'public/blogs/index'
+export const BLOGS_INDEX_MANIFEST_PATH = `${BLOGS_INDEX_DIR}/manifest.json`
+export const LEGACY_BLOGS_INDEX_PATH = 'public/blogs/index.json'
+
+const UNDATED_SHARD = 'undated'
+
+export type BlogIndexManifest = {
+	version: 1
+	// 分片 key → 文章数
+	shards: Record<string, number>
+	// slug → 分片 key
+	slugs: Record<string, string>
+}
+
+export function getShardKey(item: Pick<BlogIndexItem, 'date'>): string {
+	return /^\d{4}/.test(item.date || '') ? item.date.slice(0, 4) : UNDATED_SHARD
+}
+
+export function getShardPath(key: string): string {
+	return `${BLOGS_INDEX_DIR}/${key}.json`
+}
+
+/**
+ * 仓库路径转换为站点 URL：public/blogs/x.json → /blogs/x.json
+ */
+export function toPublicUrl(repoPath: string): string {
+	return repoPath.replace(/^public/, '')
+}
+
+/**
+ * 分片按年份倒序，无日期的分片排在最后
+ */
+export function sortShardKeys(keys: string[]): string[] {
+	return [...keys].sort((a, b) => {
+		if (a === UNDATED_SHARD) return 1
+		if (b === UNDATED_SHARD) return -1
+		return b.localeCompare(a)
+	})
+}
+
+export function sortIndexItems(items: BlogIndexItem[]): BlogIndexItem[] {
+	return [...items].sort((a, b) => (b.date || '').localeCompare(a.date || ''))
+}
+
+export function groupIntoShards(items: BlogIndexItem[]): Map<string, BlogIndexItem[]> {
+	const shards = new Map<string, BlogIndexItem[]>()
+	for (const item of items) {
+		const key = getShardKey(item)
+		shards.set(key, [...(shards.get(key) || []), item])
+	}
+	return shards
+}
+
+export function buildManifest(shards: Map<string, BlogIndexItem[]>): BlogIndexManifest {
+	const manifest: BlogIndexManifest = { version: 1, shards: {}, slugs: {} }
+	for (const [key, items] of shards) {
+		if (items.length === 0) continue
+		manifest.shards[key] = items.length
+		items.forEach(item => (manifest.slugs[item.slug] = key))
+	}
+	return manifest
+}
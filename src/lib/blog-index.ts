@@ -1,59 +1,134 @@
 'use client'
 
-import { putFile, toBase64Utf8, readTextFileFromRepo } from '@/lib/github-client'
+import type { ContentStore } from '@/lib/content-store'
+import type { ComputedFiles } from '@/lib/changeset'
+import {
+	BLOGS_INDEX_MANIFEST_PATH,
+	LEGACY_BLOGS_INDEX_PATH,
+	getShardKey,
+	getShardPath,
+	groupIntoShards,
+	buildManifest,
+	sortIndexItems,
+	type BlogIndexManifest
+} from '@/lib/blog-index-shards'
 
 import type { BlogIndexItem } from '@/app/blog/types'
 
 export type { BlogIndexItem } from '@/app/blog/types'
 
-export async function upsertBlogsIndex(token: string, owner: string, repo: string, item: BlogIndexItem, branch: string): Promise<void> {
-	const indexPath = 'public/blogs/index.json'
-	let list: BlogIndexItem[] = []
+async function readJson<T>(store: ContentStore, path: string, ref: string): Promise<T | null> {
 	try {
-		const txt = await readTextFileFromRepo(token, owner, repo, indexPath, branch)
-		if (txt) list = JSON.parse(txt)
+		const txt = await store.readTextFile(path, ref)
+		if (txt) return JSON.parse(txt)
 	} catch {
-		// ignore parse errors and start from empty list
+		// ignore parse errors and treat as missing
 	}
-	const map = new Map<string, BlogIndexItem>(list.map(i => [i.slug, i]))
-	map.set(item.slug, item)
-	const next = Array.from(map.values()).sort((a, b) => (b.date || '').localeCompare(a.date || ''))
-	const base64 = toBase64Utf8(JSON.stringify(next, null, 2))
-	await putFile(token, owner, repo, indexPath, base64, 'Update blogs index', branch)
+	return null
 }
 
-export async function prepareBlogsIndex(token: string, owner: string, repo: string, item: BlogIndexItem, branch: string): Promise<string> {
-	const indexPath = 'public/blogs/index.json'
-	let list: BlogIndexItem[] = []
-	try {
-		const txt = await readTextFileFromRepo(token, owner, repo, indexPath, branch)
-		if (txt) list = JSON.parse(txt)
-	} catch {
-		// ignore parse errors and start from empty list
-	}
-	const map = new Map<string, BlogIndexItem>(list.map(i => [i.slug, i]))
-	map.set(item.slug, item)
-	const next = Array.from(map.values()).sort((a, b) => (b.date || '').localeCompare(a.date || ''))
-	return JSON.stringify(next, null, 2)
+type IndexUpdate = {
+	remove?: string[]
+	upsert?: BlogIndexItem[]
 }
 
-export async function removeBlogsFromIndex(token: string, owner: string, repo: string, slugs: string[], branch: string): Promise<string> {
-	const indexPath = 'public/blogs/index.json'
-	let list: BlogIndexItem[] = []
-	try {
-		const txt = await readTextFileFromRepo(token, owner, repo, indexPath, branch)
-		if (txt) list = JSON.parse(txt)
-	} catch {
-		// ignore parse errors and keep empty list
+/**
+ * 只读取并改写受影响的分片，返回需要提交的分片和 manifest
+ * 仓库中还是旧版单文件索引时，一次性拆分为分片并删除旧文件
+ */
+async function updateBlogsIndex(store: ContentStore, ref: string, update: IndexUpdate): Promise<ComputedFiles> {
+	const changes: ComputedFiles = {}
+	const shards = new Map<string, BlogIndexItem[]>()
+	const existingShards = new Set<string>()
+
+	let manifest = await readJson<BlogIndexManifest>(store, BLOGS_INDEX_MANIFEST_PATH, ref)
+	if (manifest) {
+		Object.keys(manifest.shards).forEach(key => existingShards.add(key))
+	} else {
+		const legacy = await readJson<BlogIndexItem[]>(store, LEGACY_BLOGS_INDEX_PATH, ref)
+		if (legacy) changes[LEGACY_BLOGS_INDEX_PATH] = null
+		groupIntoShards(legacy || []).forEach((items, key) => shards.set(key, items))
+		manifest = buildManifest(shards)
 	}
-	const slugSet = new Set(slugs.filter(Boolean))
-	if (slugSet.size === 0) {
-		return JSON.stringify(list, null, 2)
+
+	const loadShard = async (key: string): Promise<BlogIndexItem[]> => {
+		if (!shards.has(key)) {
+			const items = existingShards.has(key) ? await readJson<BlogIndexItem[]>(store, getShardPath(key), ref) : null
+			shards.set(key, items || [])
+		}
+		return shards.get(key)!
+	}
+
+	const upserts = update.upsert || []
+	const removed = new Set([...(update.remove || []), ...upserts.map(item => item.slug)].filter(Boolean))
+	for (const slug of removed) {
+		const key = manifest.slugs[slug]
+		if (!key) continue
+		const shard = await loadShard(key)
+		shards.set(
+			key,
+			shard.filter(item => item.slug !== slug)
+		)
+	}
+	for (const item of upserts) {
+		const key = getShardKey(item)
+		shards.set(key, [...(await loadShard(key)).filter(existing => existing.slug !== item.slug), item])
+	}
+
+	const nextManifest: BlogIndexManifest = { version: 1, shards: { ...manifest.shards }, slugs: { ...manifest.slugs } }
+	removed.forEach(slug => delete nextManifest.slugs[slug])
+	for (const [key, items] of shards) {
+		if (items.length === 0) {
+			if (existingShards.has(key)) changes[getShardPath(key)] = null
+			delete nextManifest.shards[key]
+			continue
+		}
+		changes[getShardPath(key)] = JSON.stringify(sortIndexItems(items), null, 2)
+		nextManifest.shards[key] = items.length
+		items.forEach(item => (nextManifest.slugs[item.slug] = key))
 	}
-	const next = list.filter(item => !slugSet.has(item.slug))
-	return JSON.stringify(next, null, 2)
+	changes[BLOGS_INDEX_MANIFEST_PATH] = JSON.stringify(nextManifest, null, 2)
+
+	return changes
+}
+
+export async function prepareBlogsIndex(store: ContentStore, item: BlogIndexItem, ref: string): Promise<ComputedFiles> {
+	return updateBlogsIndex(store, ref, { upsert: [item] })
 }
 
-export async function removeBlogFromIndex(token: string, owner: string, repo: string, slug: string, branch: string): Promise<string> {
-	return removeBlogsFromIndex(token, owner, repo, [slug], branch)
+/**
+ * 修改 slug：移除旧条目并写入新条目
+ */
+export async function renameBlogInIndex(store: ContentStore, oldSlug: string, item: BlogIndexItem, ref: string): Promise<ComputedFiles> {
+	return updateBlogsIndex(store, ref, { remove: [oldSlug], upsert: [item] })
+}
+
+export async function removeBlogsFromIndex(store: ContentStore, slugs: string[], ref: string): Promise<ComputedFiles> {
+	return updateBlogsIndex(store, ref, { remove: slugs })
+}
+
+export async function removeBlogFromIndex(store: ContentStore, slug: string, ref: string): Promise<ComputedFiles> {
+	return removeBlogsFromIndex(store, [slug], ref)
+}
+
+/**
+ * 把本地对索引的批量编辑合并到最新的远程索引上
+ * 只覆盖本地实际改动或删除的条目，其他人新增/修改的条目保持不变
+ */
+export async function mergeBlogsIndexEdits(
+	store: ContentStore,
+	originalItems: BlogIndexItem[],
+	nextItems: BlogIndexItem[],
+	ref: string
+): Promise<ComputedFiles> {
+	const originalMap = new Map(originalItems.map(item => [item.slug, item]))
+	const nextSlugs = new Set(nextItems.map(item => item.slug))
+
+	const remove = originalItems.filter(item => !nextSlugs.has(item.slug)).map(item => item.slug)
+	const upsert = nextItems.filter(item => {
+		const original = originalMap.get(item.slug)
+		return !original || JSON.stringify(original) !== JSON.stringify(item)
+	})
+
+	return updateBlogsIndex(store, ref, { remove, upsert })
 }
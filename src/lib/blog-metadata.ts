@@ -0,0 +1,124 @@
+import type { Metadata } from 'next'
+import siteContent from '@/config/site-content.json'
+import type { LoadedBlog } from '@/lib/load-blog'
+import { SITE_ORIGIN } from '@/consts'
+import { parseSiteTime } from '@/lib/blog-schedule'
+
+const DESCRIPTION_LENGTH = 160
+
+const toAbsoluteUrl = (url: string): string => (/^https?:\/\//.test(url) ? url : `${SITE_ORIGIN}${url.startsWith('/') ? '' : '/'}${url}`)
+
+const toIsoDate = (value?: string): string | undefined => {
+	if (!value) return undefined
+	const time = parseSiteTime(value)
+	return Number.isNaN(time) ? undefined : new Date(time).toISOString()
+}
+
+export const getBlogUrl = (slug: string): string => `${SITE_ORIGIN}/blog/${encodeURIComponent(slug)}`
+
+/**
+ * 没有摘要时从正文截取一段纯文本作为 description
+ */
+const extractDescription = (markdown: string): string => {
+	const text = markdown
+		.replace(/^---[\s\S]*?---/, '')
+		.replace(/```[\s\S]*?```/g, ' ')
+		.replace(/\$\$[\s\S]*?\$\$/g, ' ')
+		.replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/<[^>]+>/g, ' ')
+		.replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+		.replace(/[*_~`]/g, '')
+		.replace(/\s+/g, ' ')
+		.trim()
+	return text.length > DESCRIPTION_LENGTH ? `${text.slice(0, DESCRIPTION_LENGTH)}…` : text
+}
+
+type BlogMeta = {
+	title: string
+	description: string
+	url: string
+	image?: string
+	publishedTime?: string
+	modifiedTime?: string
+	tags: string[]
+	author?: string
+}
+
+// prerendered: 构建时生成了静态页面与 /blog/[id]/og 分享图的文章（listPrerenderSlugs）
+const getBlogMeta = ({ slug, config, markdown, cover }: LoadedBlog, prerendered: boolean): BlogMeta => {
+	const publishedTime = toIsoDate(config.date)
+	return {
+		title: config.title || slug,
+		description: config.summary || extractDescription(markdown) || siteContent.meta.description,
+		url: getBlogUrl(slug),
+		// 没有封面时使用 /blog/[id]/og 生成的分享图，该图只为预渲染的文章生成，其余文章不设置分享图
+		image: cover ? toAbsoluteUrl(cover) : prerendered ? `${getBlogUrl(slug)}/og` : undefined,
+		publishedTime,
+		modifiedTime: toIsoDate(config.updatedAt) ?? publishedTime,
+		tags: config.tags || [],
+		author: config.author
+	}
+}
+
+/**
+ * 文章页的 title、description、canonical 以及 Open Graph / Twitter 卡片
+ */
+export function buildBlogMetadata(blog: LoadedBlog, prerendered: boolean): Metadata {
+	const meta = getBlogMeta(blog, prerendered)
+	const images = meta.image ? [{ url: meta.image, alt: meta.title }] : undefined
+
+	return {
+		title: meta.title,
+		description: meta.description,
+		keywords: meta.tags.length ? meta.tags : undefined,
+		authors: meta.author ? [{ name: meta.author }] : undefined,
+		alternates: { canonical: meta.url },
+		openGraph: {
+			type: 'article',
+			url: meta.url,
+			siteName: siteContent.meta.title,
+			title: meta.title,
+			description: meta.description,
+			publishedTime: meta.publishedTime,
+			modifiedTime: meta.modifiedTime,
+			tags: meta.tags,
+			authors: meta.author ? [meta.author] : undefined,
+			images
+		},
+		twitter: {
+			card: images ? 'summary_large_image' : 'summary',
+			title: meta.title,
+			description: meta.description,
+			images
+		}
+	}
+}
+
+/**
+ * schema.org Article 结构化数据，以 JSON-LD 输出到文章页
+ */
+export function buildArticleJsonLd(blog: LoadedBlog, prerendered: boolean): Record<string, unknown> {
+	const meta = getBlogMeta(blog, prerendered)
+	const authorName = meta.author || siteContent.meta.username
+
+	return {
+		'@context': 'https://schema.org',
+		'@type': 'Article',
+		headline: meta.title,
+		description: meta.description,
+		image: meta.image ? [meta.image] : undefined,
+		datePublished: meta.publishedTime,
+		dateModified: meta.modifiedTime,
+		keywords: meta.tags.length ? meta.tags.join(', ') : undefined,
+		author: { '@type': 'Person', name: authorName },
+		publisher: { '@type': 'Organization', name: siteContent.meta.title, url: SITE_ORIGIN },
+		url: meta.url,
+		mainEntityOfPage: { '@type': 'WebPage', '@id': meta.url }
+	}
+}
+
+/**
+ * 写入 <script> 时转义 <，避免正文内容提前闭合标签
+ */
+export const serializeJsonLd = (data: Record<string, unknown>): string => JSON.stringify(data).replace(/</g, '\\u003c')
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { getPathMatch } from 'next/dist/shared/lib/router/utils/path-match'
+import { prepareDestination } from 'next/dist/shared/lib/router/utils/prepare-destination'
+import { buildBlogRedirectRules } from '@/lib/blog-redirects'
+
+// 与 Next 处理 redirects 时相同：取第一条匹配的规则，生成解码后的目标地址
+const redirect = (redirects: Record<string, string>, pathname: string) => {
+	const rule = buildBlogRedirectRules(redirects).find(item => getPathMatch(item.source)(pathname) !== false)
+	if (!rule) return null
+	const { newUrl } = prepareDestination({ appendParamsToQuery: false, destination: rule.destination, params: {}, query: {} })
+	return { to: decodeURIComponent(newUrl), permanent: rule.permanent }
+}
+
+describe('blog redirect rules', () => {
+	const redirects = { 'a:b(c)*+': 'new:(x)*', 旧文章: '新文章(2)' }
+
+	it('matches slugs with path-to-regexp syntax literally', () => {
+		expect(redirect(redirects, '/blog/a:b(c)*+')).toEqual({ to: '/blog/new:(x)*', permanent: true })
+		expect(redirect(redirects, `/blog/${encodeURIComponent('a:b(c)*+')}`)).toEqual({ to: '/blog/new:(x)*', permanent: true })
+		expect(redirect(redirects, '/write/a:b(c)*+')).toEqual({ to: '/write/new:(x)*', permanent: false })
+		expect(redirect(redirects, '/blog/a')).toBeNull()
+		expect(redirect(redirects, '/blog/abc')).toBeNull()
+	})
+
+	it('encodes non-ASCII slugs', () => {
+		expect(redirect(redirects, `/blog/${encodeURIComponent('旧文章')}`)).toEqual({ to: '/blog/新文章(2)', permanent: true })
+	})
+})
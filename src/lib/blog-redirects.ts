@@ -0,0 +1,76 @@
+import type { ContentStore } from '@/lib/content-store'
+
+export const BLOG_REDIRECTS_PATH = 'public/blogs/redirects.json'
+
+// 旧 slug → 新 slug，始终指向最终的 slug，不存在链式跳转
+export type BlogRedirects = Record<string, string>
+
+/**
+ * 把正文/封面中指向 /blogs/<from>/ 的资源路径替换为新 slug
+ */
+export function rewriteSlugPaths(text: string, from: string, to: string): string {
+	return text.split(`/blogs/${from}/`).join(`/blogs/${to}/`)
+}
+
+export function addBlogRedirect(redirects: BlogRedirects, from: string, to: string): BlogRedirects {
+	const next: BlogRedirects = {}
+	for (const [source, target] of Object.entries(redirects)) {
+		// 新 slug 已经是真实文章，不能再跳走
+		if (source === to) continue
+		next[source] = target === from ? to : target
+	}
+	next[from] = to
+	return next
+}
+
+type RedirectRule = { source: string; destination: string; permanent: boolean }
+
+// 站内链接用 encodeURIComponent 编码 slug，浏览器地址栏则保留 : @ $ & + , ; = 等字符，两种写法都要匹配
+const toRequestSegments = (slug: string): string[] => {
+	const encoded = encodeURIComponent(slug)
+	return Array.from(new Set([encoded, encoded.replace(/%(?:3A|40|24|26|2B|2C|3B|3D)/g, decodeURIComponent)]))
+}
+
+// next.config 的 source 按 path-to-regexp 解析，有特殊含义的字符用反斜杠转义
+const escapeSource = (segment: string): string => segment.replace(/[:()*+?{}\\]/g, '\\$&')
+
+// destination 会先按 URL 解析（反斜杠变成 /），编码后仍有特殊含义的 ( ) * 只能继续百分号编码
+const toDestinationSegment = (slug: string): string => encodeURIComponent(slug).replace(/[()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+
+/**
+ * 旧 slug 的文章页和写作页跳转到新 slug，供 next.config 的 redirects 使用
+ */
+export function buildBlogRedirectRules(redirects: BlogRedirects): RedirectRule[] {
+	return Object.entries(redirects).flatMap(([from, to]) =>
+		toRequestSegments(from).flatMap(segment => [
+			{ source: `/blog/${escapeSource(segment)}`, destination: `/blog/${toDestinationSegment(to)}`, permanent: true },
+			{ source: `/write/${escapeSource(segment)}`, destination: `/write/${toDestinationSegment(to)}`, permanent: false }
+		])
+	)
+}
+
+export function resolveBlogRedirect(redirects: BlogRedirects, slug: string): string | null {
+	const target = redirects[slug]
+	return target && target !== slug ? target : null
+}
+
+export async function prepareBlogRedirects(store: ContentStore, from: string, to: string, ref: string): Promise<string> {
+	let redirects: BlogRedirects = {}
+	try {
+		const txt = await store.readTextFile(BLOG_REDIRECTS_PATH, ref)
+		if (txt) redirects = JSON.parse(txt)
+	} catch {
+		// ignore parse errors and start from empty map
+	}
+	return JSON.stringify(addBlogRedirect(redirects, from, to), null, 2)
+}
+
+export async function fetchBlogRedirects(): Promise<BlogRedirects> {
+	try {
+		const res = await fetch('/blogs/redirects.json', { cache: 'no-store' })
+		if (!res.ok) return {}
+		return await res.json()
+	} catch {
+		return {}
+	}
+}
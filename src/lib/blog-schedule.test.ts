@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { formatSiteDateTime, getPublishTime, isPublicPost, parseSiteTime } from '@/lib/blog-schedule'
+
+// 默认站点时区为 Asia/Shanghai（UTC+8）
+describe('blog schedule', () => {
+	it('parses dates without an offset in the site timezone', () => {
+		expect(parseSiteTime('2025-03-01T08:00')).toBe(Date.UTC(2025, 2, 1, 0, 0))
+	})
+
+	it('keeps explicit offsets', () => {
+		expect(parseSiteTime('2025-03-01T08:00:00Z')).toBe(Date.UTC(2025, 2, 1, 8, 0))
+	})
+
+	it('formats timestamps in the site timezone', () => {
+		expect(formatSiteDateTime(Date.UTC(2025, 2, 1, 0, 0))).toBe('2025-03-01T08:00')
+	})
+
+	it('publishes a scheduled post at the same moment everywhere', () => {
+		const post = { date: '2025-03-01T08:00', hidden: false }
+		const publishAt = getPublishTime(post)
+
+		expect(isPublicPost(post, publishAt - 1)).toBe(false)
+		expect(isPublicPost(post, publishAt)).toBe(true)
+	})
+})
@@ -0,0 +1,49 @@
+import dayjs from 'dayjs'
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import type { BlogIndexItem } from '@/app/blog/types'
+import { SITE_TIMEZONE } from '@/consts'
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+const HAS_OFFSET = /(z|[+-]\d{2}:?\d{2})$/i
+
+/**
+ * 解析文章日期，返回毫秒时间戳，无法解析时返回 NaN
+ * 编辑器写入的日期不带时区（YYYY-MM-DDTHH:mm），按站点时区解析，服务端与访客浏览器得到同一时刻
+ */
+export function parseSiteTime(date: string): number {
+	if (HAS_OFFSET.test(date)) return new Date(date).getTime()
+	try {
+		return dayjs.tz(date, SITE_TIMEZONE).valueOf()
+	} catch {
+		return NaN
+	}
+}
+
+/**
+ * 按站点时区格式化为 datetime-local 输入框的格式
+ */
+export function formatSiteDateTime(date: Date | number = Date.now()): string {
+	return dayjs(date).tz(SITE_TIMEZONE).format('YYYY-MM-DDTHH:mm')
+}
+
+/**
+ * 定时发布：date 晚于当前时间的文章在到期前不对访客公开
+ */
+export function getPublishTime(item: Pick<BlogIndexItem, 'date'>): number {
+	const time = item.date ? parseSiteTime(item.date) : NaN
+	return Number.isNaN(time) ? 0 : time
+}
+
+export function isScheduledPost(item: Pick<BlogIndexItem, 'date'>, now: number = Date.now()): boolean {
+	return getPublishTime(item) > now
+}
+
+/**
+ * 访客可见：未隐藏且已到发布时间
+ */
+export function isPublicPost(item: Pick<BlogIndexItem, 'date' | 'hidden'>, now: number = Date.now()): boolean {
+	return !item.hidden && !isScheduledPost(item, now)
+}
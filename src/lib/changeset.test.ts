@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { Changeset, ContentConflictError } from '@/lib/changeset'
+import { MemoryContentStore } from '@/lib/content-store'
+
+// 登录状态在模块加载时读取浏览器存储，测试中只需要提交审计用到的字段
+vi.mock('@/hooks/use-auth', () => ({
+	useAuthStore: { getState: () => ({ provider: null, login: null }) }
+}))
+
+const BRANCH = 'main'
+const POST = 'public/blogs/hello/index.md'
+const INDEX = 'public/blogs/index.json'
+
+const createChangeset = (store: MemoryContentStore, baseSha?: string) => new Changeset({ store, branch: BRANCH, baseSha, onProgress: () => {} })
+
+const commitText = (store: MemoryContentStore, path: string, text: string) =>
+	createChangeset(store).addTextFile(path, text).commit(`update ${path}`, { operation: 'blog.update', slugs: [] })
+
+const readText = (store: MemoryContentStore, path: string) => store.readTextFile(path, BRANCH)
+
+describe('Changeset', () => {
+	let store: MemoryContentStore
+
+	beforeEach(() => {
+		store = new MemoryContentStore({ [POST]: 'original', [INDEX]: '[]' })
+	})
+
+	it('commits files and moves the branch', async () => {
+		const { sha } = await commitText(store, POST, 'edited')
+
+		expect(await readText(store, POST)).toBe('edited')
+		expect((await store.getRef(`heads/${BRANCH}`)).sha).toBe(sha)
+	})
+
+	it('recomputes computed files on top of a concurrent commit', async () => {
+		let attempts = 0
+		const changeset = createChangeset(store).addComputedTextFile(INDEX, async ref => {
+			attempts++
+			// 第一次计算后插入其他人的提交，让 updateRef 失败并触发重试
+			if (attempts === 1) await commitText(store, INDEX, '["other"]')
+			const latest: string[] = JSON.parse((await store.readTextFile(INDEX, ref)) || '[]')
+			return JSON.stringify([...latest, 'mine'])
+		})
+
+		await changeset.commit('update index', { operation: 'blog.update', slugs: [] })
+
+		expect(attempts).toBe(2)
+		expect(JSON.parse((await readText(store, INDEX))!)).toEqual(['other', 'mine'])
+	})
+
+	it('reports a conflict when a guarded file changed after the editor loaded it', async () => {
+		const { sha: loadedSha } = await store.getRef(`heads/${BRANCH}`)
+		await commitText(store, POST, 'someone else')
+
+		const changeset = createChangeset(store, loadedSha).addTextFile(POST, 'mine').guardPaths(POST)
+
+		await expect(changeset.commit('update post', { operation: 'blog.update', slugs: ['hello'] })).rejects.toBeInstanceOf(ContentConflictError)
+		expect(await readText(store, POST)).toBe('someone else')
+	})
+
+	it('ignores concurrent commits that do not touch guarded files', async () => {
+		const { sha: loadedSha } = await store.getRef(`heads/${BRANCH}`)
+		await commitText(store, INDEX, '["other"]')
+
+		await createChangeset(store, loadedSha)
+			.addTextFile(POST, 'mine')
+			.guardPaths(POST)
+			.commit('update post', { operation: 'blog.update', slugs: ['hello'] })
+
+		expect(await readText(store, POST)).toBe('mine')
+	})
+
+	it('reports a conflict when a new file was created by someone else', async () => {
+		const NEW_POST = 'public/blogs/new/index.md'
+		const changeset = createChangeset(store)
+			.addComputedTextFile(INDEX, async ref => {
+				// 第一次计算后其他人以相同路径创建了文件
+				if (!(await store.readTextFile(NEW_POST, ref))) await commitText(store, NEW_POST, 'someone else')
+				return '["new"]'
+			})
+			.addTextFile(NEW_POST, 'mine')
+			.guardAbsentPaths(NEW_POST)
+
+		await expect(changeset.commit('create post', { operation: 'blog.create', slugs: ['new'] })).rejects.toBeInstanceOf(ContentConflictError)
+		expect(await readText(store, NEW_POST)).toBe('someone else')
+	})
+})
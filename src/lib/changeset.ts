@@ -0,0 +1,304 @@
+'use client'
+
+import { toast } from 'sonner'
+import { getActiveSite } from '@/hooks/use-site-registry'
+import { getContentStore, type ContentStore } from '@/lib/content-store'
+import { fileToBase64NoPrefix } from '@/lib/file-utils'
+import { GithubApiError, RefConflictError, toBase64Utf8, type TreeItem } from '@/lib/github-client'
+import { mapWithConcurrency } from '@/lib/utils'
+import { formatAuditTrailer, type AuditInfo } from '@/lib/audit'
+
+export type ProgressReporter = (message: string) => void
+
+// 复用同一个 toast，避免批量上传时刷屏
+export const toastProgress: ProgressReporter = message => {
+	toast.info(message, { id: 'changeset-progress' })
+}
+
+export type ChangesetOptions = {
+	store?: ContentStore
+	branch?: string
+	// branch 不存在时从该分支创建（如 draft/* 草稿分支）
+	baseBranch?: string
+	onProgress?: ProgressReporter
+	// 分支被并发更新时最多尝试提交的次数
+	maxAttempts?: number
+	// 编辑器读取内容时分支所在的提交，受保护文件以它为基准检查冲突；不传时以首次提交时的分支为基准
+	baseSha?: string | null
+}
+
+// 同时上传的 blob 数量，避免触发 GitHub 次级速率限制
+const BLOB_UPLOAD_CONCURRENCY = 4
+
+type PendingFile = { type: 'file'; content: Promise<string> } | { type: 'delete' }
+
+type ComputeTextFile = (ref: string) => Promise<string>
+
+// 路径 → 文本内容，null 表示删除该文件
+export type ComputedFiles = Record<string, string | null>
+type ComputeFiles = (ref: string) => Promise<ComputedFiles>
+
+/**
+ * 提交期间其他人修改了受保护的文件，无法自动合并
+ */
+export class ContentConflictError extends Error {
+	constructor(readonly paths: string[]) {
+		super(`内容冲突：${paths.join(', ')} 已被其他人修改`)
+		this.name = 'ContentConflictError'
+	}
+}
+
+async function hashContent(base64: string): Promise<string> {
+	const buf = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64))
+	return Array.from(new Uint8Array(buf), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 一次原子提交中的所有文件变更
+ * 收集写入/删除后在 commit 时统一完成 ref → blob → tree → commit → ref 的流程，
+ * 相同内容只上传一次 blob，进度统一通过 onProgress 回调报告
+ */
+export class Changeset {
+	readonly store: ContentStore
+	readonly branch: string
+	private readonly baseBranch?: string
+	private readonly onProgress: ProgressReporter
+	private readonly maxAttempts: number
+	private readonly baseSha: string | null
+	private files = new Map<string, PendingFile>()
+	private computedFiles = new Map<string, ComputeTextFile>()
+	private computedFileSets: ComputeFiles[] = []
+	// 上一次由 computedFileSets 生成的路径，重试时先清除，避免残留旧的计算结果
+	private computedSetPaths = new Set<string>()
+	private directories = new Set<string>()
+	private moves = new Map<string, string>()
+	private guardedPaths = new Set<string>()
+	private absentPaths = new Set<string>()
+	private blobsByHash = new Map<string, Promise<string>>()
+
+	constructor(options: ChangesetOptions = {}) {
+		this.store = options.store ?? getContentStore()
+		this.branch = options.branch ?? getActiveSite().branch
+		this.baseBranch = options.baseBranch
+		this.onProgress = options.onProgress ?? toastProgress
+		this.maxAttempts = options.maxAttempts ?? 3
+		this.baseSha = options.baseSha ?? null
+	}
+
+	get isEmpty(): boolean {
+		return this.files.size === 0 && this.computedFiles.size === 0 && this.computedFileSets.length === 0 && this.directories.size === 0 && this.moves.size === 0
+	}
+
+	get paths(): string[] {
+		return Array.from(this.files.keys())
+	}
+
+	report(message: string): void {
+		this.onProgress(message)
+	}
+
+	addTextFile(path: string, text: string): this {
+		this.files.set(path, { type: 'file', content: Promise.resolve(toBase64Utf8(text)) })
+		return this
+	}
+
+	/**
+	 * @param content File 对象或不带前缀的 base64 字符串
+	 */
+	addBinaryFile(path: string, content: File | string): this {
+		this.files.set(path, { type: 'file', content: typeof content === 'string' ? Promise.resolve(content) : fileToBase64NoPrefix(content) })
+		return this
+	}
+
+	/**
+	 * 内容依赖分支最新状态的文件（如 redirects.json），每次尝试提交前基于最新提交重新生成
+	 */
+	addComputedTextFile(path: string, compute: ComputeTextFile): this {
+		this.computedFiles.set(path, compute)
+		return this
+	}
+
+	/**
+	 * 一次生成多个依赖分支最新状态的文件（如分片索引只更新受影响的分片），
+	 * 具体涉及哪些路径在每次尝试提交时才确定
+	 */
+	addComputedFiles(compute: ComputeFiles): this {
+		this.computedFileSets.push(compute)
+		return this
+	}
+
+	/**
+	 * 受保护的文件：若提交期间被其他人修改，不自动重试而是抛出 ContentConflictError
+	 */
+	guardPaths(...paths: string[]): this {
+		paths.forEach(path => this.guardedPaths.add(path))
+		return this
+	}
+
+	/**
+	 * 受保护的新文件：加载时不存在，若提交前已被其他人创建则抛出 ContentConflictError
+	 */
+	guardAbsentPaths(...paths: string[]): this {
+		paths.forEach(path => this.absentPaths.add(path))
+		return this
+	}
+
+	deletePath(path: string): this {
+		this.files.set(path, { type: 'delete' })
+		return this
+	}
+
+	/**
+	 * 删除目录下的所有文件，目录内容在提交时才读取
+	 */
+	deleteDirectory(path: string): this {
+		this.directories.add(path.replace(/\/$/, ''))
+		return this
+	}
+
+	/**
+	 * 把目录下的所有文件移动到新目录，已通过 addTextFile 等写入的目标文件优先
+	 */
+	moveDirectory(from: string, to: string): this {
+		this.moves.set(from.replace(/\/$/, ''), to.replace(/\/$/, ''))
+		return this
+	}
+
+	private async collectDirectories(): Promise<void> {
+		for (const [from, to] of this.moves) {
+			this.report(`正在收集 ${from} 文件...`)
+			const files = await this.store.listFilesRecursive(from, this.branch)
+			for (const path of files) {
+				const target = `${to}${path.slice(from.length)}`
+				if (!this.files.has(target)) {
+					const content = this.store.readFileBase64(path, this.branch).then(base64 => {
+						if (base64 === null) throw new Error(`读取文件失败: ${path}`)
+						return base64
+					})
+					this.files.set(target, { type: 'file', content })
+				}
+				if (!this.files.has(path)) this.files.set(path, { type: 'delete' })
+			}
+		}
+		this.moves.clear()
+
+		for (const dir of this.directories) {
+			this.report(`正在收集 ${dir} 文件...`)
+			const files = await this.store.listFilesRecursive(dir, this.branch)
+			for (const path of files) {
+				if (!this.files.has(path)) this.files.set(path, { type: 'delete' })
+			}
+		}
+		this.directories.clear()
+	}
+
+	private async buildTreeItems(): Promise<TreeItem[]> {
+		const entries = Array.from(this.files.entries())
+		const total = entries.filter(([, file]) => file.type === 'file').length
+		let uploaded = 0
+
+		return mapWithConcurrency(entries, BLOB_UPLOAD_CONCURRENCY, async ([path, file]): Promise<TreeItem> => {
+			if (file.type === 'delete') {
+				return { path, mode: '100644', type: 'blob', sha: null }
+			}
+
+			const content = await file.content
+			const hash = await hashContent(content)
+			let sha = this.blobsByHash.get(hash)
+			if (!sha) {
+				sha = this.store.createBlob(content, 'base64').then(blob => blob.sha)
+				this.blobsByHash.set(hash, sha)
+				// 失败的上传不缓存，便于重试
+				sha.catch(() => this.blobsByHash.delete(hash))
+			}
+			const blobSha = await sha
+			this.report(`正在上传文件 (${++uploaded}/${total})...`)
+			return { path, mode: '100644', type: 'blob', sha: blobSha }
+		})
+	}
+
+	private async getOrCreateRef(ref: string): Promise<{ sha: string }> {
+		try {
+			return await this.store.getRef(ref)
+		} catch (error) {
+			if (!this.baseBranch || !(error instanceof GithubApiError) || error.status !== 404) throw error
+			this.report(`正在创建分支 ${this.branch}...`)
+			const base = await this.store.getRef(`heads/${this.baseBranch}`)
+			await this.store.createRef(ref, base.sha)
+			return base
+		}
+	}
+
+	private async resolveComputedFiles(ref: string): Promise<void> {
+		for (const [path, compute] of this.computedFiles) {
+			const text = await compute(ref)
+			this.files.set(path, { type: 'file', content: Promise.resolve(toBase64Utf8(text)) })
+		}
+
+		this.computedSetPaths.forEach(path => this.files.delete(path))
+		this.computedSetPaths.clear()
+		for (const compute of this.computedFileSets) {
+			for (const [path, text] of Object.entries(await compute(ref))) {
+				this.files.set(path, text === null ? { type: 'delete' } : { type: 'file', content: Promise.resolve(toBase64Utf8(text)) })
+				this.computedSetPaths.add(path)
+			}
+		}
+	}
+
+	private async assertNoConflicts(baseSha: string, headSha: string): Promise<void> {
+		const conflicts: string[] = []
+		for (const path of this.guardedPaths) {
+			const [base, head] = await Promise.all([this.store.readTextFile(path, baseSha), this.store.readTextFile(path, headSha)])
+			if (base !== head) conflicts.push(path)
+		}
+		if (conflicts.length > 0) throw new ContentConflictError(conflicts)
+	}
+
+	private async assertAbsent(headSha: string): Promise<void> {
+		const existing: string[] = []
+		for (const path of this.absentPaths) {
+			if ((await this.store.readTextFile(path, headSha)) !== null) existing.push(path)
+		}
+		if (existing.length > 0) throw new ContentConflictError(existing)
+	}
+
+	/**
+	 * 提交所有变更并更新分支
+	 * 分支在此期间被其他人更新时，基于最新提交重新生成计算文件并重试
+	 * 受保护文件在基准提交之后被修改过、或受保护的新文件已被创建则抛出 ContentConflictError，首次尝试也会检查
+	 * @param audit 操作类型与影响的文章，连同最终变更的文件写入提交信息的 trailer
+	 * @returns 新提交的 sha
+	 */
+	async commit(message: string, audit: AuditInfo): Promise<{ sha: string }> {
+		const ref = `heads/${this.branch}`
+		let baseSha = this.baseSha
+
+		for (let attempt = 1; ; attempt++) {
+			this.report(attempt === 1 ? '正在获取分支信息...' : `分支已被更新，正在重新合并 (${attempt}/${this.maxAttempts})...`)
+			const { sha: latestCommitSha } = await this.getOrCreateRef(ref)
+			if (baseSha === null) baseSha = latestCommitSha
+			else if (baseSha !== latestCommitSha) await this.assertNoConflicts(baseSha, latestCommitSha)
+			await this.assertAbsent(latestCommitSha)
+
+			await this.collectDirectories()
+			await this.resolveComputedFiles(latestCommitSha)
+			if (this.files.size === 0) throw new Error('没有需要提交的变更')
+
+			const treeItems = await this.buildTreeItems()
+
+			this.report('正在创建文件树...')
+			const treeData = await this.store.createTree(treeItems, latestCommitSha)
+
+			this.report('正在创建提交...')
+			const commitData = await this.store.createCommit(message + formatAuditTrailer(audit, this.paths), treeData.sha, [latestCommitSha])
+
+			this.report('正在更新分支...')
+			try {
+				await this.store.updateRef(ref, commitData.sha)
+				return commitData
+			} catch (error) {
+				if (!(error instanceof RefConflictError) || attempt >= this.maxAttempts) throw error
+			}
+		}
+	}
+}
@@ -0,0 +1,327 @@
+'use client'
+
+import { CONTENT_STORE } from '@/consts'
+import { getActiveSite } from '@/hooks/use-site-registry'
+import { getAuthToken } from '@/lib/auth'
+import {
+	createBlob,
+	createCommit,
+	createPullRequest,
+	createRef,
+	createTree,
+	deleteRef,
+	findPullRequest,
+	getPullRequest,
+	getRef,
+	listCommits,
+	mergePullRequest,
+	listRepoFilesRecursive,
+	readFileBase64FromRepo,
+	readTextFileFromRepo,
+	fromBase64Utf8,
+	toBase64Utf8,
+	updateRef,
+	RefConflictError,
+	type CommitSummary,
+	type PullRequest,
+	type TreeItem
+} from '@/lib/github-client'
+
+export const LOCAL_CONTENT_API = '/api/local-content'
+
+/**
+ * 内容存储后端
+ * 与 GitHub Git Data API 保持同样的语义（blob → tree → commit → ref），
+ * 推送服务只依赖该接口，不关心内容最终写到哪里
+ */
+export interface ContentStore {
+	readonly kind: 'github' | 'local' | 'memory'
+	getRef(ref: string): Promise<{ sha: string }>
+	createBlob(content: string, encoding?: 'utf-8' | 'base64'): Promise<{ sha: string }>
+	createTree(tree: TreeItem[], baseTree?: string): Promise<{ sha: string }>
+	createCommit(message: string, tree: string, parents: string[]): Promise<{ sha: string }>
+	updateRef(ref: string, sha: string, force?: boolean): Promise<void>
+	createRef(ref: string, sha: string): Promise<void>
+	readTextFile(path: string, ref: string): Promise<string | null>
+	// 读取任意文件（包括图片等二进制文件）的 base64 内容
+	readFileBase64(path: string, ref: string): Promise<string | null>
+	listFilesRecursive(path: string, ref: string): Promise<string[]>
+}
+
+export class GithubContentStore implements ContentStore {
+	readonly kind = 'github'
+
+	constructor(
+		private readonly owner: string = getActiveSite().owner,
+		private readonly repo: string = getActiveSite().repo
+	) {}
+
+	// 每次请求都读取当前令牌：401 后刷新或临近过期重新签发的令牌能立即生效
+	private token(): Promise<string> {
+		return getAuthToken()
+	}
+
+	async getRef(ref: string) {
+		return getRef(await this.token(), this.owner, this.repo, ref)
+	}
+
+	async createBlob(content: string, encoding: 'utf-8' | 'base64' = 'base64') {
+		return createBlob(await this.token(), this.owner, this.repo, content, encoding)
+	}
+
+	async createTree(tree: TreeItem[], baseTree?: string) {
+		return createTree(await this.token(), this.owner, this.repo, tree, baseTree)
+	}
+
+	async createCommit(message: string, tree: string, parents: string[]) {
+		return createCommit(await this.token(), this.owner, this.repo, message, tree, parents)
+	}
+
+	async updateRef(ref: string, sha: string, force = false) {
+		return updateRef(await this.token(), this.owner, this.repo, ref, sha, force)
+	}
+
+	async createRef(ref: string, sha: string) {
+		return createRef(await this.token(), this.owner, this.repo, ref, sha)
+	}
+
+	async deleteRef(ref: string) {
+		return deleteRef(await this.token(), this.owner, this.repo, ref)
+	}
+
+	async readTextFile(path: string, ref: string) {
+		return readTextFileFromRepo(await this.token(), this.owner, this.repo, path, ref)
+	}
+
+	async readFileBase64(path: string, ref: string) {
+		return readFileBase64FromRepo(await this.token(), this.owner, this.repo, path, ref)
+	}
+
+	async listFilesRecursive(path: string, ref: string) {
+		return listRepoFilesRecursive(await this.token(), this.owner, this.repo, path, ref)
+	}
+
+	// 提交历史与 Pull requests 只有 GitHub 后端支持
+
+	async listCommits(path: string, ref: string, perPage?: number, page?: number): Promise<CommitSummary[]> {
+		return listCommits(await this.token(), this.owner, this.repo, { path, ref, perPage, page })
+	}
+
+	async findPullRequest(head: string, base: string): Promise<PullRequest | null> {
+		const token = await this.token()
+		const pr = await findPullRequest(token, this.owner, this.repo, head, base)
+		// 列表接口不返回 mergeable，需要单独获取
+		return pr && pr.state === 'open' ? getPullRequest(token, this.owner, this.repo, pr.number) : pr
+	}
+
+	async createPullRequest(params: { title: string; head: string; base: string; body?: string }) {
+		return createPullRequest(await this.token(), this.owner, this.repo, params)
+	}
+
+	async mergePullRequest(number: number, commitTitle: string, commitMessage?: string) {
+		return mergePullRequest(await this.token(), this.owner, this.repo, number, commitTitle, commitMessage)
+	}
+}
+
+export type FileChange = {
+	path: string
+	// base64 内容，null 表示删除
+	content: string | null
+}
+
+type StoredCommit = {
+	tree: string
+	parents: string[]
+	message: string
+}
+
+async function digest(input: string): Promise<string> {
+	const buf = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(input))
+	return Array.from(new Uint8Array(buf), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 在内存中模拟 blob/tree/commit/ref，updateRef 时把该提交的文件变更交给 applyChanges
+ * 不校验 tree 的继承关系：每个 tree 只记录本次变更，按提交顺序依次落地
+ */
+abstract class SnapshotContentStore implements ContentStore {
+	abstract readonly kind: 'local' | 'memory'
+
+	private blobs = new Map<string, string>()
+	private trees = new Map<string, TreeItem[]>()
+	private commits = new Map<string, StoredCommit>()
+	private refs = new Map<string, string>()
+
+	protected abstract applyChanges(changes: FileChange[]): Promise<void>
+	abstract readFileBase64(path: string, ref: string): Promise<string | null>
+	abstract listFilesRecursive(path: string, ref: string): Promise<string[]>
+
+	async readTextFile(path: string, ref: string) {
+		const content = await this.readFileBase64(path, ref)
+		return content === null ? null : fromBase64Utf8(content)
+	}
+
+	async getRef(ref: string) {
+		let sha = this.refs.get(ref)
+		if (!sha) {
+			sha = await digest(`root:${ref}`)
+			this.commits.set(sha, { tree: '', parents: [], message: 'root' })
+			this.refs.set(ref, sha)
+		}
+		return { sha }
+	}
+
+	async createBlob(content: string, encoding: 'utf-8' | 'base64' = 'base64') {
+		const base64 = encoding === 'base64' ? content : toBase64Utf8(content)
+		const sha = await digest(`blob:${base64}`)
+		this.blobs.set(sha, base64)
+		return { sha }
+	}
+
+	async createTree(tree: TreeItem[], baseTree?: string) {
+		for (const item of tree) {
+			if (item.sha && !this.blobs.has(item.sha)) throw new Error(`create tree failed: unknown blob ${item.sha}`)
+		}
+		const sha = await digest(`tree:${baseTree || ''}:${JSON.stringify(tree)}`)
+		this.trees.set(sha, tree)
+		return { sha }
+	}
+
+	async createCommit(message: string, tree: string, parents: string[]) {
+		if (!this.trees.has(tree)) throw new Error('create commit failed: unknown tree')
+		const sha = await digest(`commit:${tree}:${parents.join(',')}:${message}:${Date.now()}`)
+		this.commits.set(sha, { tree, parents, message })
+		return { sha }
+	}
+
+	async updateRef(ref: string, sha: string, force = false) {
+		const commit = this.commits.get(sha)
+		if (!commit) throw new Error('update ref failed: unknown commit')
+		const current = this.refs.get(ref)
+		if (!force && current && !commit.parents.includes(current)) {
+			throw new RefConflictError(ref)
+		}
+
+		const changes: FileChange[] = (this.trees.get(commit.tree) || []).map(item => ({
+			path: item.path,
+			content: item.content !== undefined ? toBase64Utf8(item.content) : item.sha ? this.blobs.get(item.sha) || null : null
+		}))
+		await this.applyChanges(changes)
+		this.refs.set(ref, sha)
+	}
+
+	async createRef(ref: string, sha: string) {
+		if (this.refs.has(ref)) throw new Error('create ref failed: 422')
+		this.refs.set(ref, sha)
+	}
+}
+
+/**
+ * 纯内存实现，用于测试或预览，不产生任何副作用
+ * 记录每个提交的文件快照，按提交 sha 读取时返回当时的内容，其他 ref 读取最新内容
+ */
+export class MemoryContentStore extends SnapshotContentStore {
+	readonly kind = 'memory'
+	readonly files: Map<string, string>
+	private snapshots = new Map<string, Map<string, string>>()
+
+	constructor(initialFiles: Record<string, string> = {}) {
+		super()
+		this.files = new Map(Object.entries(initialFiles).map(([path, text]) => [path, toBase64Utf8(text)]))
+	}
+
+	async getRef(ref: string) {
+		const result = await super.getRef(ref)
+		if (!this.snapshots.has(result.sha)) this.snapshots.set(result.sha, new Map(this.files))
+		return result
+	}
+
+	async updateRef(ref: string, sha: string, force = false) {
+		await super.updateRef(ref, sha, force)
+		this.snapshots.set(sha, new Map(this.files))
+	}
+
+	protected async applyChanges(changes: FileChange[]) {
+		for (const { path, content } of changes) {
+			if (content === null) this.files.delete(path)
+			else this.files.set(path, content)
+		}
+	}
+
+	async readFileBase64(path: string, ref: string) {
+		return (this.snapshots.get(ref) ?? this.files).get(path) ?? null
+	}
+
+	async listFilesRecursive(path: string, ref: string) {
+		const prefix = path.replace(/\/$/, '')
+		return Array.from((this.snapshots.get(ref) ?? this.files).keys()).filter(file => file === prefix || file.startsWith(`${prefix}/`))
+	}
+}
+
+/**
+ * 本地文件系统实现，通过开发环境专用的 /api/local-content 路由读写仓库目录
+ * 只在 pnpm dev 下可用，不需要 GitHub App
+ */
+export class LocalContentStore extends SnapshotContentStore {
+	readonly kind = 'local'
+
+	protected async applyChanges(changes: FileChange[]) {
+		const res = await fetch(LOCAL_CONTENT_API, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ changes })
+		})
+		if (!res.ok) throw new Error(`write local files failed: ${res.status}`)
+	}
+
+	async readFileBase64(path: string) {
+		const res = await fetch(`${LOCAL_CONTENT_API}?path=${encodeURIComponent(path)}`, { cache: 'no-store' })
+		if (res.status === 404) return null
+		if (!res.ok) throw new Error(`read local file failed: ${res.status}`)
+		const data: { content: string } = await res.json()
+		return data.content
+	}
+
+	async listFilesRecursive(path: string) {
+		const res = await fetch(`${LOCAL_CONTENT_API}?path=${encodeURIComponent(path)}&list=1`, { cache: 'no-store' })
+		if (res.status === 404) return []
+		if (!res.ok) throw new Error(`read local directory failed: ${res.status}`)
+		const data: { files: string[] } = await res.json()
+		return data.files
+	}
+}
+
+let storeOverride: ContentStore | null = null
+
+/**
+ * 获取 GitHub 存储后端，用于只有 GitHub 支持的功能（提交历史、PR 等）
+ * @param feature 功能名称，用于错误提示
+ */
+export function requireGithubStore(feature: string): GithubContentStore {
+	const store = getContentStore()
+	if (!(store instanceof GithubContentStore)) {
+		throw new Error(`${feature}只支持 GitHub 存储`)
+	}
+	return store
+}
+
+/**
+ * 替换全局使用的存储后端（测试中注入 MemoryContentStore），传 null 恢复默认
+ */
+export function setContentStore(store: ContentStore | null): void {
+	storeOverride = store
+}
+
+export function contentStoreRequiresAuth(): boolean {
+	if (storeOverride) return storeOverride.kind === 'github'
+	return CONTENT_STORE === 'github'
+}
+
+/**
+ * 获取当前的存储后端，每次推送创建一个新的实例，令牌在实例内复用
+ */
+export function getContentStore(): ContentStore {
+	if (storeOverride) return storeOverride
+	if (CONTENT_STORE === 'local') return new LocalContentStore()
+	return new GithubContentStore()
+}
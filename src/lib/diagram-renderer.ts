@@ -0,0 +1,66 @@
+import type { DiagramLang } from '@/lib/markdown/diagrams'
+
+// 图表库体积较大，只在文章包含图表时按需加载
+let mermaidPromise: Promise<typeof import('mermaid').default> | null = null
+let vizPromise: Promise<import('@viz-js/viz').Viz> | null = null
+let mermaidSeq = 0
+
+function loadMermaid() {
+	if (!mermaidPromise) {
+		mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+			mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'neutral' })
+			return mermaid
+		})
+		mermaidPromise.catch(() => {
+			mermaidPromise = null
+		})
+	}
+	return mermaidPromise
+}
+
+function loadViz() {
+	if (!vizPromise) {
+		vizPromise = import('@viz-js/viz').then(({ instance }) => instance())
+		vizPromise.catch(() => {
+			vizPromise = null
+		})
+	}
+	return vizPromise
+}
+
+/**
+ * graphviz 会把 URL / href 属性原样输出为链接，去掉脚本和非 http 链接
+ * mermaid 在 strict 模式下已自行清理
+ */
+function sanitizeSvg(svg: string): string {
+	const doc = new DOMParser().parseFromString(svg, 'image/svg+xml')
+	doc.querySelectorAll('script, foreignObject').forEach(node => node.remove())
+	doc.querySelectorAll('*').forEach(element => {
+		for (const attr of Array.from(element.attributes)) {
+			const unsafeLink = /href$/i.test(attr.name) && !/^(https?:|#)/i.test(attr.value.trim())
+			if (/^on/i.test(attr.name) || unsafeLink) element.removeAttribute(attr.name)
+		}
+	})
+	return new XMLSerializer().serializeToString(doc.documentElement)
+}
+
+/**
+ * 在浏览器中把图表源码渲染为 SVG 字符串
+ * @throws 语法错误或库加载失败
+ */
+export async function renderDiagram(lang: DiagramLang, code: string): Promise<string> {
+	if (lang === 'mermaid') {
+		const mermaid = await loadMermaid()
+		const id = `mermaid-${++mermaidSeq}`
+		try {
+			const { svg } = await mermaid.render(id, code)
+			return svg
+		} finally {
+			// 渲染失败时 mermaid 会把错误图留在 body 中
+			document.getElementById(`d${id}`)?.remove()
+		}
+	}
+
+	const viz = await loadViz()
+	return sanitizeSvg(viz.renderString(code, { format: 'svg' }))
+}
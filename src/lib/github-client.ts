@@ -1,11 +1,18 @@
 'use client'
 
 import { useAuthStore } from '@/hooks/use-auth'
+import { useRateLimitStore } from '@/hooks/use-rate-limit'
+import { refreshAuthToken } from '@/lib/auth'
 import { KJUR, KEYUTIL } from 'jsrsasign'
 import { toast } from 'sonner'
 
 export const GH_API = 'https://api.github.com'
 
+const MAX_RETRIES = 4
+const BASE_RETRY_DELAY = 1000
+// 超过该等待时间的限流不再自动重试，直接报错
+const MAX_RETRY_DELAY = 60 * 1000
+
 function handle401Error(): void {
 	if (typeof sessionStorage === 'undefined') return
 	try {
@@ -19,10 +26,139 @@ function handle422Error(): void {
 	toast.error('操作太快了，请操作慢一点')
 }
 
+/**
+ * GitHub API 返回非预期状态码
+ */
+export class GithubApiError extends Error {
+	constructor(
+		readonly status: number,
+		message: string
+	) {
+		super(message)
+		this.name = 'GithubApiError'
+	}
+}
+
+/**
+ * 触发 GitHub 主/次级速率限制且无法在合理时间内自动重试
+ */
+export class GithubRateLimitError extends GithubApiError {
+	constructor(
+		status: number,
+		readonly resetAt: number | null
+	) {
+		const resetText = resetAt ? `，请在 ${new Date(resetAt).toLocaleTimeString()} 后重试` : '，请稍后重试'
+		super(status, `GitHub API 请求过于频繁${resetText}`)
+		this.name = 'GithubRateLimitError'
+	}
+}
+
+type RequestOptions = {
+	token: string
+	method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'
+	body?: unknown
+	// 401 时重新签发令牌并重试一次；使用 App JWT 的请求需要关闭，避免递归签发
+	refreshOn401?: boolean
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function isRateLimited(res: Response): boolean {
+	if (res.status === 429) return true
+	if (res.status !== 403) return false
+	return res.headers.get('x-ratelimit-remaining') === '0' || res.headers.has('retry-after')
+}
+
+function getRateLimitResetAt(res: Response): number | null {
+	const retryAfter = res.headers.get('retry-after')
+	if (retryAfter) return Date.now() + Number(retryAfter) * 1000
+	const reset = res.headers.get('x-ratelimit-reset')
+	if (reset && res.headers.get('x-ratelimit-remaining') === '0') return Number(reset) * 1000
+	return null
+}
+
+/**
+ * 计算重试前的等待时间，返回 null 表示不应重试
+ */
+function getRetryDelay(res: Response, attempt: number): number | null {
+	const backoff = BASE_RETRY_DELAY * 2 ** attempt + Math.random() * BASE_RETRY_DELAY
+	if (res.status >= 500) return backoff
+	if (!isRateLimited(res)) return null
+
+	const resetAt = getRateLimitResetAt(res)
+	const delay = resetAt ? Math.max(resetAt - Date.now(), 0) + BASE_RETRY_DELAY : backoff
+	return delay <= MAX_RETRY_DELAY ? delay : null
+}
+
+/**
+ * 统一的 GitHub API 请求
+ * 记录速率限制额度，遇到 5xx、网络错误和可等待的限流时按指数退避自动重试，
+ * 令牌失效（401）时重新签发并重试一次
+ */
+async function githubRequest(path: string, { token: initialToken, method = 'GET', body, refreshOn401 = true }: RequestOptions): Promise<Response> {
+	const { updateFromHeaders, setRetryingUntil } = useRateLimitStore.getState()
+	let token = initialToken
+	let refreshed = false
+
+	for (let attempt = 0; ; attempt++) {
+		let res: Response
+		try {
+			res = await fetch(`${GH_API}${path}`, {
+				method,
+				headers: {
+					Authorization: `Bearer ${token}`,
+					Accept: 'application/vnd.github+json',
+					'X-GitHub-Api-Version': '2022-11-28',
+					...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+				},
+				body: body !== undefined ? JSON.stringify(body) : undefined
+			})
+		} catch (error) {
+			if (attempt >= MAX_RETRIES) throw error
+			await sleep(BASE_RETRY_DELAY * 2 ** attempt)
+			continue
+		}
+
+		updateFromHeaders(res.headers)
+
+		if (res.status === 401 && refreshOn401 && !refreshed) {
+			refreshed = true
+			const freshToken = await refreshAuthToken(token)
+			if (freshToken) {
+				token = freshToken
+				continue
+			}
+		}
+
+		const delay = res.ok ? null : getRetryDelay(res, attempt)
+		if (delay === null || attempt >= MAX_RETRIES) return res
+
+		setRetryingUntil(Date.now() + delay)
+		await sleep(delay)
+		setRetryingUntil(null)
+	}
+}
+
+function assertOk(res: Response, action: string): void {
+	if (res.ok) return
+	if (res.status === 401) handle401Error()
+	if (isRateLimited(res)) throw new GithubRateLimitError(res.status, getRateLimitResetAt(res))
+	if (res.status === 422) handle422Error()
+	throw new GithubApiError(res.status, `${action} failed: ${res.status}`)
+}
+
 export function toBase64Utf8(input: string): string {
 	return btoa(unescape(encodeURIComponent(input)))
 }
 
+export function fromBase64Utf8(input: string): string {
+	try {
+		return decodeURIComponent(escape(atob(input)))
+	} catch {
+		return atob(input)
+	}
+}
+
 export function signAppJwt(appId: string, privateKeyPem: string): string {
 	const now = Math.floor(Date.now() / 1000)
 	const header = { alg: 'RS256', typ: 'JWT' }
@@ -32,87 +168,110 @@ export function signAppJwt(appId: string, privateKeyPem: string): string {
 }
 
 export async function getInstallationId(jwt: string, owner: string, repo: string): Promise<number> {
-	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/installation`, {
-		headers: {
-			Authorization: `Bearer ${jwt}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28'
-		}
-	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
-	if (!res.ok) throw new Error(`installation lookup failed: ${res.status}`)
+	const res = await githubRequest(`/repos/${owner}/${repo}/installation`, { token: jwt, refreshOn401: false })
+	assertOk(res, 'installation lookup')
 	const data = await res.json()
 	return data.id
 }
 
-export async function createInstallationToken(jwt: string, installationId: number): Promise<string> {
-	const res = await fetch(`${GH_API}/app/installations/${installationId}/access_tokens`, {
-		method: 'POST',
-		headers: {
-			Authorization: `Bearer ${jwt}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28'
-		}
-	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
-	if (!res.ok) throw new Error(`create token failed: ${res.status}`)
+export type InstallationToken = {
+	token: string
+	// 毫秒时间戳，安装令牌默认一小时后过期
+	expiresAt: number
+}
+
+export async function createInstallationToken(jwt: string, installationId: number): Promise<InstallationToken> {
+	const res = await githubRequest(`/app/installations/${installationId}/access_tokens`, { token: jwt, method: 'POST', refreshOn401: false })
+	assertOk(res, 'create token')
 	const data = await res.json()
-	return data.token as string
+	const expiresAt = data.expires_at ? new Date(data.expires_at).getTime() : Date.now() + 60 * 60 * 1000
+	return { token: data.token as string, expiresAt }
+}
+
+// User token APIs（访问令牌 / OAuth 设备登录）
+
+export type AuthenticatedUser = {
+	login: string
+	avatarUrl: string
+	// 细粒度访问令牌的过期时间，永不过期或未知时为 null
+	tokenExpiresAt: number | null
+}
+
+function parseTokenExpiration(header: string | null): number | null {
+	if (!header) return null
+	// 形如 "2026-11-01 00:00:00 UTC"
+	const time = Date.parse(header.replace(' UTC', 'Z').replace(' ', 'T'))
+	return Number.isNaN(time) ? null : time
+}
+
+export async function getAuthenticatedUser(token: string): Promise<AuthenticatedUser> {
+	const res = await githubRequest('/user', { token, refreshOn401: false })
+	assertOk(res, 'get user')
+	const data = await res.json()
+	return {
+		login: data.login,
+		avatarUrl: data.avatar_url,
+		tokenExpiresAt: parseTokenExpiration(res.headers.get('github-authentication-token-expiration'))
+	}
+}
+
+export async function canPushToRepo(token: string, owner: string, repo: string): Promise<boolean> {
+	const res = await githubRequest(`/repos/${owner}/${repo}`, { token, refreshOn401: false })
+	if (res.status === 404) return false
+	assertOk(res, 'get repo')
+	const data = await res.json()
+	return !!data.permissions?.push
 }
 
 export async function getFileSha(token: string, owner: string, repo: string, path: string, branch: string): Promise<string | undefined> {
-	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}?ref=${encodeURIComponent(branch)}`, {
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28'
-		}
-	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
+	const res = await githubRequest(`/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}?ref=${encodeURIComponent(branch)}`, { token })
 	if (res.status === 404) return undefined
-	if (!res.ok) throw new Error(`get file sha failed: ${res.status}`)
+	assertOk(res, 'get file sha')
 	const data = await res.json()
 	return (data && data.sha) || undefined
 }
 
 export async function putFile(token: string, owner: string, repo: string, path: string, contentBase64: string, message: string, branch: string) {
 	const sha = await getFileSha(token, owner, repo, path, branch)
-	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}`, {
+	const res = await githubRequest(`/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}`, {
+		token,
 		method: 'PUT',
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28',
-			'Content-Type': 'application/json'
-		},
-		body: JSON.stringify({ message, content: contentBase64, branch, ...(sha ? { sha } : {}) })
+		body: { message, content: contentBase64, branch, ...(sha ? { sha } : {}) }
 	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
-	if (!res.ok) throw new Error(`put file failed: ${res.status}`)
+	assertOk(res, 'put file')
 	return res.json()
 }
 
 // Batch commit APIs
 
+/**
+ * updateRef 非快进（分支在读取之后被其他人更新）时抛出
+ */
+export class RefConflictError extends Error {
+	constructor(readonly ref: string) {
+		super(`update ref failed: ${ref} is not a fast forward`)
+		this.name = 'RefConflictError'
+	}
+}
+
 export async function getRef(token: string, owner: string, repo: string, ref: string): Promise<{ sha: string }> {
-	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/git/ref/${encodeURIComponent(ref)}`, {
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28'
-		}
-	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
-	if (!res.ok) throw new Error(`get ref failed: ${res.status}`)
+	const res = await githubRequest(`/repos/${owner}/${repo}/git/ref/${encodeURIComponent(ref)}`, { token })
+	assertOk(res, 'get ref')
 	const data = await res.json()
 	return { sha: data.object.sha }
 }
 
+export async function createRef(token: string, owner: string, repo: string, ref: string, sha: string): Promise<void> {
+	const res = await githubRequest(`/repos/${owner}/${repo}/git/refs`, { token, method: 'POST', body: { ref: `refs/${ref}`, sha } })
+	assertOk(res, 'create ref')
+}
+
+export async function deleteRef(token: string, owner: string, repo: string, ref: string): Promise<void> {
+	const res = await githubRequest(`/repos/${owner}/${repo}/git/refs/${encodeURIComponent(ref)}`, { token, method: 'DELETE' })
+	if (res.status === 404 || res.status === 422) return
+	assertOk(res, 'delete ref')
+}
+
 export type TreeItem = {
 	path: string
 	mode: '100644' | '100755' | '040000' | '160000' | '120000'
@@ -122,91 +281,56 @@ export type TreeItem = {
 }
 
 export async function createTree(token: string, owner: string, repo: string, tree: TreeItem[], baseTree?: string): Promise<{ sha: string }> {
-	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/git/trees`, {
-		method: 'POST',
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28',
-			'Content-Type': 'application/json'
-		},
-		body: JSON.stringify({ tree, base_tree: baseTree })
-	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
-	if (!res.ok) throw new Error(`create tree failed: ${res.status}`)
+	const res = await githubRequest(`/repos/${owner}/${repo}/git/trees`, { token, method: 'POST', body: { tree, base_tree: baseTree } })
+	assertOk(res, 'create tree')
 	const data = await res.json()
 	return { sha: data.sha }
 }
 
 export async function createCommit(token: string, owner: string, repo: string, message: string, tree: string, parents: string[]): Promise<{ sha: string }> {
-	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/git/commits`, {
-		method: 'POST',
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28',
-			'Content-Type': 'application/json'
-		},
-		body: JSON.stringify({ message, tree, parents })
-	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
-	if (!res.ok) throw new Error(`create commit failed: ${res.status}`)
+	const res = await githubRequest(`/repos/${owner}/${repo}/git/commits`, { token, method: 'POST', body: { message, tree, parents } })
+	assertOk(res, 'create commit')
 	const data = await res.json()
 	return { sha: data.sha }
 }
 
 export async function updateRef(token: string, owner: string, repo: string, ref: string, sha: string, force = false): Promise<void> {
-	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/git/refs/${encodeURIComponent(ref)}`, {
-		method: 'PATCH',
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28',
-			'Content-Type': 'application/json'
-		},
-		body: JSON.stringify({ sha, force })
-	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
-	if (!res.ok) throw new Error(`update ref failed: ${res.status}`)
+	const res = await githubRequest(`/repos/${owner}/${repo}/git/refs/${encodeURIComponent(ref)}`, { token, method: 'PATCH', body: { sha, force } })
+	if (res.status === 422) {
+		const data = await res.json().catch(() => null)
+		if (/fast forward/i.test(data?.message || '')) throw new RefConflictError(ref)
+	}
+	assertOk(res, 'update ref')
 }
 
 export async function readTextFileFromRepo(token: string, owner: string, repo: string, path: string, ref: string): Promise<string | null> {
-	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`, {
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28'
-		}
-	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
+	const base64 = await readFileBase64FromRepo(token, owner, repo, path, ref)
+	return base64 ? fromBase64Utf8(base64) : null
+}
+
+/**
+ * 读取文件的 base64 内容，超过 1MB 的文件 contents API 不返回内容，改用 blob API 读取
+ */
+export async function readFileBase64FromRepo(token: string, owner: string, repo: string, path: string, ref: string): Promise<string | null> {
+	const res = await githubRequest(`/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`, { token })
 	if (res.status === 404) return null
-	if (!res.ok) throw new Error(`read file failed: ${res.status}`)
+	assertOk(res, 'read file')
 	const data: any = await res.json()
-	if (Array.isArray(data) || !data.content) return null
-	try {
-		return decodeURIComponent(escape(atob(data.content)))
-	} catch {
-		return atob(data.content)
-	}
+	if (Array.isArray(data) || data.type !== 'file') return null
+	if (data.content) return data.content.replace(/\n/g, '')
+	if (!data.sha || !data.size) return data.content ?? ''
+
+	const blobRes = await githubRequest(`/repos/${owner}/${repo}/git/blobs/${data.sha}`, { token })
+	assertOk(blobRes, 'read blob')
+	const blob: any = await blobRes.json()
+	return (blob.content || '').replace(/\n/g, '')
 }
 
 export async function listRepoFilesRecursive(token: string, owner: string, repo: string, path: string, ref: string): Promise<string[]> {
 	async function fetchPath(targetPath: string): Promise<string[]> {
-		const res = await fetch(`${GH_API}/repos/${owner}/${repo}/contents/${encodeURIComponent(targetPath)}?ref=${encodeURIComponent(ref)}`, {
-			headers: {
-				Authorization: `Bearer ${token}`,
-				Accept: 'application/vnd.github+json',
-				'X-GitHub-Api-Version': '2022-11-28'
-			}
-		})
-		if (res.status === 401) handle401Error()
-		if (res.status === 422) handle422Error()
+		const res = await githubRequest(`/repos/${owner}/${repo}/contents/${encodeURIComponent(targetPath)}?ref=${encodeURIComponent(ref)}`, { token })
 		if (res.status === 404) return []
-		if (!res.ok) throw new Error(`read directory failed: ${res.status}`)
+		assertOk(res, 'read directory')
 		const data: any = await res.json()
 		if (Array.isArray(data)) {
 			const files: string[] = []
@@ -235,19 +359,111 @@ export async function createBlob(
 	content: string,
 	encoding: 'utf-8' | 'base64' = 'base64'
 ): Promise<{ sha: string }> {
-	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/git/blobs`, {
-		method: 'POST',
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: 'application/vnd.github+json',
-			'X-GitHub-Api-Version': '2022-11-28',
-			'Content-Type': 'application/json'
-		},
-		body: JSON.stringify({ content, encoding })
+	const res = await githubRequest(`/repos/${owner}/${repo}/git/blobs`, { token, method: 'POST', body: { content, encoding } })
+	assertOk(res, 'create blob')
+	const data = await res.json()
+	return { sha: data.sha }
+}
+
+// History APIs
+
+export type CommitSummary = {
+	sha: string
+	message: string
+	author: string
+	date: string
+	htmlUrl: string
+}
+
+export async function listCommits(
+	token: string,
+	owner: string,
+	repo: string,
+	params: { path?: string; ref?: string; perPage?: number; page?: number }
+): Promise<CommitSummary[]> {
+	const query = new URLSearchParams({ per_page: String(params.perPage ?? 30), page: String(params.page ?? 1) })
+	if (params.path) query.set('path', params.path)
+	if (params.ref) query.set('sha', params.ref)
+	const res = await githubRequest(`/repos/${owner}/${repo}/commits?${query}`, { token })
+	assertOk(res, 'list commits')
+	const data: any[] = await res.json()
+	return data.map(item => ({
+		sha: item.sha,
+		message: item.commit?.message || '',
+		author: item.author?.login || item.commit?.author?.name || '',
+		date: item.commit?.author?.date || '',
+		htmlUrl: item.html_url
+	}))
+}
+
+// Pull request APIs
+
+export type PullRequest = {
+	number: number
+	title: string
+	state: 'open' | 'closed'
+	merged: boolean
+	// GitHub 异步计算，刚创建时可能为 null
+	mergeable: boolean | null
+	htmlUrl: string
+	head: string
+	base: string
+}
+
+function toPullRequest(data: any): PullRequest {
+	return {
+		number: data.number,
+		title: data.title,
+		state: data.state,
+		merged: !!(data.merged || data.merged_at),
+		mergeable: data.mergeable ?? null,
+		htmlUrl: data.html_url,
+		head: data.head?.ref,
+		base: data.base?.ref
+	}
+}
+
+export async function findPullRequest(token: string, owner: string, repo: string, head: string, base: string): Promise<PullRequest | null> {
+	const query = `head=${encodeURIComponent(`${owner}:${head}`)}&base=${encodeURIComponent(base)}&state=all&per_page=1`
+	const res = await githubRequest(`/repos/${owner}/${repo}/pulls?${query}`, { token })
+	assertOk(res, 'list pull requests')
+	const data: any[] = await res.json()
+	return data.length > 0 ? toPullRequest(data[0]) : null
+}
+
+export async function getPullRequest(token: string, owner: string, repo: string, number: number): Promise<PullRequest> {
+	const res = await githubRequest(`/repos/${owner}/${repo}/pulls/${number}`, { token })
+	assertOk(res, 'get pull request')
+	return toPullRequest(await res.json())
+}
+
+export async function createPullRequest(
+	token: string,
+	owner: string,
+	repo: string,
+	params: { title: string; head: string; base: string; body?: string }
+): Promise<PullRequest> {
+	const res = await githubRequest(`/repos/${owner}/${repo}/pulls`, { token, method: 'POST', body: params })
+	assertOk(res, 'create pull request')
+	return toPullRequest(await res.json())
+}
+
+export async function mergePullRequest(
+	token: string,
+	owner: string,
+	repo: string,
+	number: number,
+	commitTitle: string,
+	commitMessage?: string,
+	mergeMethod: 'merge' | 'squash' | 'rebase' = 'squash'
+): Promise<{ sha: string }> {
+	const res = await githubRequest(`/repos/${owner}/${repo}/pulls/${number}/merge`, {
+		token,
+		method: 'PUT',
+		body: { commit_title: commitTitle, commit_message: commitMessage, merge_method: mergeMethod }
 	})
-	if (res.status === 401) handle401Error()
-	if (res.status === 422) handle422Error()
-	if (!res.ok) throw new Error(`create blob failed: ${res.status}`)
+	if (res.status === 405) throw new GithubApiError(res.status, 'PR 当前无法合并，请先在 GitHub 上解决冲突')
+	assertOk(res, 'merge pull request')
 	const data = await res.json()
 	return { sha: data.sha }
 }
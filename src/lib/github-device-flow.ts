@@ -0,0 +1,88 @@
+'use client'
+
+/**
+ * GitHub OAuth 设备登录：用户在 github.com 输入验证码授权后，轮询换取用户访问令牌
+ * 请求经 /api/github-device 转发
+ */
+
+const DEVICE_API = '/api/github-device'
+
+export type DeviceCode = {
+	deviceCode: string
+	userCode: string
+	verificationUri: string
+	// 秒
+	interval: number
+	expiresAt: number
+}
+
+export type DeviceToken = {
+	token: string
+	// 未启用令牌过期时为 null
+	expiresAt: number | null
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+	new Promise<void>((resolve, reject) => {
+		const timer = setTimeout(resolve, ms)
+		signal?.addEventListener('abort', () => {
+			clearTimeout(timer)
+			reject(new DOMException('Aborted', 'AbortError'))
+		})
+	})
+
+async function postDevice(body: Record<string, string>, signal?: AbortSignal): Promise<any> {
+	const res = await fetch(DEVICE_API, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+		signal
+	})
+	if (res.status === 404) throw new Error('未配置 GitHub 登录（NEXT_PUBLIC_GITHUB_CLIENT_ID）')
+	if (!res.ok) throw new Error(`GitHub 登录请求失败: ${res.status}`)
+	return res.json()
+}
+
+export async function requestDeviceCode(): Promise<DeviceCode> {
+	const data = await postDevice({ action: 'code' })
+	if (data.error) throw new Error(data.error_description || data.error)
+	return {
+		deviceCode: data.device_code,
+		userCode: data.user_code,
+		verificationUri: data.verification_uri,
+		interval: data.interval || 5,
+		expiresAt: Date.now() + data.expires_in * 1000
+	}
+}
+
+/**
+ * 按 GitHub 要求的间隔轮询，直到用户完成授权、拒绝或验证码过期
+ */
+export async function pollDeviceToken(code: DeviceCode, signal?: AbortSignal): Promise<DeviceToken> {
+	let interval = code.interval
+
+	while (Date.now() < code.expiresAt) {
+		await sleep(interval * 1000, signal)
+		const data = await postDevice({ action: 'token', deviceCode: code.deviceCode }, signal)
+
+		if (data.access_token) {
+			return { token: data.access_token, expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : null }
+		}
+
+		switch (data.error) {
+			case 'authorization_pending':
+				continue
+			case 'slow_down':
+				interval = data.interval || interval + 5
+				continue
+			case 'access_denied':
+				throw new Error('已取消授权')
+			case 'expired_token':
+				throw new Error('验证码已过期，请重新登录')
+			default:
+				throw new Error(data.error_description || data.error || 'GitHub 登录失败')
+		}
+	}
+
+	throw new Error('验证码已过期，请重新登录')
+}
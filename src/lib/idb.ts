@@ -0,0 +1,56 @@
+/**
+ * IndexedDB 的最小封装：每个数据库只有一个以 key 字段为主键的 object store
+ */
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result)
+		request.onerror = () => reject(request.error)
+	})
+}
+
+export type IdbStore<T> = {
+	get(key: string): Promise<T | undefined>
+	getAll(): Promise<T[]>
+	put(value: T): Promise<void>
+	delete(key: string): Promise<void>
+}
+
+export function createIdbStore<T extends { key: string }>(dbName: string, storeName: string, version = 1): IdbStore<T> {
+	let dbPromise: Promise<IDBDatabase> | null = null
+
+	const openDb = () => {
+		if (typeof indexedDB === 'undefined') {
+			return Promise.reject(new Error('当前环境不支持 IndexedDB'))
+		}
+		if (!dbPromise) {
+			const request = indexedDB.open(dbName, version)
+			request.onupgradeneeded = () => {
+				if (!request.result.objectStoreNames.contains(storeName)) {
+					request.result.createObjectStore(storeName, { keyPath: 'key' })
+				}
+			}
+			dbPromise = promisifyRequest(request).catch(err => {
+				dbPromise = null
+				throw err
+			})
+		}
+		return dbPromise
+	}
+
+	const withStore = async <R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+		const db = await openDb()
+		return promisifyRequest(fn(db.transaction(storeName, mode).objectStore(storeName)))
+	}
+
+	return {
+		get: key => withStore('readonly', store => store.get(key)),
+		getAll: () => withStore('readonly', store => store.getAll()),
+		put: async value => {
+			await withStore('readwrite', store => store.put(value))
+		},
+		delete: async key => {
+			await withStore('readwrite', store => store.delete(key))
+		}
+	}
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { mergeListEdits, mergeObjectEdits } from '@/lib/list-merge'
+
+type Item = { url: string; name: string }
+
+const byUrl = (item: Item) => item.url
+
+describe('mergeListEdits', () => {
+	const original: Item[] = [
+		{ url: 'a', name: 'A' },
+		{ url: 'b', name: 'B' },
+		{ url: 'c', name: 'C' }
+	]
+
+	it('applies local edits on top of concurrent changes', () => {
+		// 本地：删除 b，修改 c，新增 d
+		const next: Item[] = [
+			{ url: 'a', name: 'A' },
+			{ url: 'c', name: 'C (mine)' },
+			{ url: 'd', name: 'D' }
+		]
+		// 其他人：修改 a，删除 b，新增 e
+		const latest: Item[] = [
+			{ url: 'a', name: 'A (theirs)' },
+			{ url: 'c', name: 'C' },
+			{ url: 'e', name: 'E' }
+		]
+
+		expect(mergeListEdits(original, next, latest, byUrl)).toEqual([
+			{ url: 'a', name: 'A (theirs)' },
+			{ url: 'c', name: 'C (mine)' },
+			{ url: 'd', name: 'D' },
+			{ url: 'e', name: 'E' }
+		])
+	})
+
+	it('does not restore items that someone else removed', () => {
+		expect(mergeListEdits(original, original, [original[0]], byUrl)).toEqual([original[0]])
+	})
+})
+
+describe('mergeObjectEdits', () => {
+	it('keeps fields that someone else changed', () => {
+		const original = { title: 'About', description: 'old', content: 'old' }
+		const next = { ...original, content: 'mine' }
+		const latest = { ...original, description: 'theirs' }
+
+		expect(mergeObjectEdits(original, next, latest)).toEqual({ title: 'About', description: 'theirs', content: 'mine' })
+	})
+})
@@ -0,0 +1,50 @@
+import type { ContentStore } from '@/lib/content-store'
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * 把本地对列表的修改合并到最新的远程列表上，条目按 getKey 识别
+ * 保留本地的顺序与增删改；本地未改动的条目使用远程的最新内容，其他人删除的不再写回；
+ * 其他人新增的条目追加在末尾
+ */
+export function mergeListEdits<T>(original: T[], next: T[], latest: T[], getKey: (item: T) => string): T[] {
+	const originalMap = new Map(original.map(item => [getKey(item), item]))
+	const latestMap = new Map(latest.map(item => [getKey(item), item]))
+	const nextKeys = new Set(next.map(getKey))
+
+	const merged: T[] = []
+	for (const item of next) {
+		const key = getKey(item)
+		if (originalMap.has(key) && isSame(originalMap.get(key), item)) {
+			if (latestMap.has(key)) merged.push(latestMap.get(key)!)
+		} else {
+			merged.push(item)
+		}
+	}
+	for (const item of latest) {
+		const key = getKey(item)
+		if (!originalMap.has(key) && !nextKeys.has(key)) merged.push(item)
+	}
+	return merged
+}
+
+/**
+ * 按字段合并：本地改动过的字段使用本地内容，其余字段使用远程的最新内容
+ */
+export function mergeObjectEdits<T extends Record<string, unknown>>(original: T, next: T, latest: Partial<T>): T {
+	const merged = { ...latest, ...next }
+	for (const key of Object.keys(next) as (keyof T)[]) {
+		if (isSame(original[key], next[key]) && key in latest) merged[key] = latest[key]!
+	}
+	return merged
+}
+
+export async function readJsonFile<T>(store: ContentStore, path: string, ref: string): Promise<T | null> {
+	try {
+		const txt = await store.readTextFile(path, ref)
+		if (txt) return JSON.parse(txt)
+	} catch {
+		// ignore parse errors and treat as missing
+	}
+	return null
+}
@@ -0,0 +1,74 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { cache } from 'react'
+import type { BlogConfig } from '@/app/blog/types'
+import type { LoadedBlog } from '@/lib/load-blog'
+import { readBlogIndex } from '@/lib/blog-index-server'
+import { isPublicPost } from '@/lib/blog-schedule'
+import { renderMarkdown, type MarkdownRenderResult } from '@/lib/markdown-renderer'
+
+export type PrerenderedBlog = Omit<LoadedBlog, 'markdown'> & MarkdownRenderResult
+
+const BLOGS_DIR = path.join(process.cwd(), 'public/blogs')
+
+const isSafeSlug = (slug: string): boolean => !!slug && !slug.includes('/') && !slug.includes('\\') && slug !== '.' && slug !== '..'
+
+// 动态路由参数未解码，中文 slug 需要还原
+export const decodeSlug = (id: string): string => {
+	try {
+		return decodeURIComponent(id)
+	} catch {
+		return id
+	}
+}
+
+async function readText(filePath: string): Promise<string | null> {
+	try {
+		return await fs.readFile(filePath, 'utf-8')
+	} catch {
+		return null
+	}
+}
+
+/**
+ * 服务端从 public/blogs/{slug} 读取文章，与客户端 loadBlog 返回相同结构
+ * 没有文件系统的运行环境（Cloudflare Workers）返回 null，由页面回退到客户端加载
+ * 同一次请求内 generateMetadata 与页面共用读取结果
+ */
+export const loadBlogFromDisk = cache(async (slug: string): Promise<LoadedBlog | null> => {
+	if (!isSafeSlug(slug)) return null
+
+	const markdown = await readText(path.join(BLOGS_DIR, slug, 'index.md'))
+	if (markdown === null) return null
+
+	let config: BlogConfig = {}
+	const configText = await readText(path.join(BLOGS_DIR, slug, 'config.json'))
+	if (configText) {
+		try {
+			config = JSON.parse(configText)
+		} catch {
+			config = {}
+		}
+	}
+
+	return { slug, config, markdown, cover: config.cover }
+})
+
+/**
+ * 在服务端完成 Markdown 渲染（Shiki 高亮、公式、清理），文章页不再在浏览器中解析
+ */
+export async function prerenderBlog(slug: string): Promise<PrerenderedBlog | null> {
+	const blog = await loadBlogFromDisk(slug)
+	if (!blog) return null
+
+	const { markdown, ...rest } = blog
+	return { ...rest, ...(await renderMarkdown(markdown)) }
+}
+
+/**
+ * 构建时预渲染的文章：已公开的文章，隐藏和定时文章访问时再渲染
+ */
+export async function listPrerenderSlugs(): Promise<string[]> {
+	const now = Date.now()
+	return (await readBlogIndex()).filter(item => isPublicPost(item, now)).map(item => item.slug)
+}
@@ -1,4 +1,7 @@
 import type { BlogConfig } from '@/app/blog/types'
+import { useAuthStore } from '@/hooks/use-auth'
+import { getActiveSite, isDefaultSite } from '@/hooks/use-site-registry'
+import { contentStoreRequiresAuth, getContentStore, GithubContentStore } from '@/lib/content-store'
 
 export type { BlogConfig } from '@/app/blog/types'
 
@@ -10,31 +13,45 @@ export type LoadedBlog = {
 }
 
 /**
- * Load blog data from public/blogs/{slug}
- * Used by both view page and edit page
+ * 读取当前站点仓库中 public/ 下的文件
+ * 默认站点直接读取部署的静态文件；其他站点登录后通过 API 读取（支持私有仓库），否则读取 raw.githubusercontent.com
  */
-export async function loadBlog(slug: string): Promise<LoadedBlog> {
+const encodePath = (path: string): string => path.split('/').map(encodeURIComponent).join('/')
+
+export async function readSiteFile(repoPath: string): Promise<string | null> {
+	const site = getActiveSite()
+	if (isDefaultSite(site)) {
+		const res = await fetch(encodePath(repoPath.replace(/^public/, '')), { cache: 'no-store' })
+		return res.ok ? res.text() : null
+	}
+	if (useAuthStore.getState().isAuth) {
+		return new GithubContentStore(site.owner, site.repo).readTextFile(repoPath, site.branch)
+	}
+	const res = await fetch(`https://raw.githubusercontent.com/${site.owner}/${site.repo}/${encodeURIComponent(site.branch)}/${encodePath(repoPath)}`, { cache: 'no-store' })
+	return res.ok ? res.text() : null
+}
+
+async function readBlog(slug: string, readFile: (repoPath: string) => Promise<string | null>): Promise<LoadedBlog> {
 	if (!slug) {
 		throw new Error('Slug is required')
 	}
 
 	// Load config.json
 	let config: BlogConfig = {}
-	const configRes = await fetch(`/blogs/${encodeURIComponent(slug)}/config.json`)
-	if (configRes.ok) {
+	const configText = await readFile(`public/blogs/${slug}/config.json`)
+	if (configText) {
 		try {
-			config = await configRes.json()
+			config = JSON.parse(configText)
 		} catch {
 			config = {}
 		}
 	}
 
 	// Load index.md
-	const mdRes = await fetch(`/blogs/${encodeURIComponent(slug)}/index.md`)
-	if (!mdRes.ok) {
+	const markdown = await readFile(`public/blogs/${slug}/index.md`)
+	if (markdown === null) {
 		throw new Error('Blog not found')
 	}
-	const markdown = await mdRes.text()
 
 	return {
 		slug,
@@ -43,3 +60,24 @@ export async function loadBlog(slug: string): Promise<LoadedBlog> {
 		cover: config.cover
 	}
 }
+
+/**
+ * Load blog data from public/blogs/{slug} of the active site
+ * Used by both view page and edit page
+ */
+export function loadBlog(slug: string): Promise<LoadedBlog> {
+	return readBlog(slug, readSiteFile)
+}
+
+/**
+ * 编辑时从内容仓库读取文章，并记录读取时分支所在的提交，发布时以它为基准检查其他人的修改
+ * 仓库需要登录而尚未登录时返回 null，由调用方回退到 loadBlog
+ */
+export async function loadBlogFromStore(slug: string): Promise<{ blog: LoadedBlog; baseSha: string } | null> {
+	if (contentStoreRequiresAuth() && !useAuthStore.getState().isAuth) return null
+
+	const store = getContentStore()
+	const { sha } = await store.getRef(`heads/${getActiveSite().branch}`)
+	const blog = await readBlog(slug, repoPath => store.readTextFile(repoPath, sha))
+	return { blog, baseSha: sha }
+}
@@ -0,0 +1,75 @@
+import { Fragment, type ReactElement } from 'react'
+import parse, { type HTMLReactParserOptions, Element, type DOMNode } from 'html-react-parser'
+import { MarkdownImage } from '@/components/markdown-image'
+import { CodeBlock } from '@/components/code-block'
+import { DiagramBlock } from '@/components/diagram-block'
+import { CalloutIcon } from '@/components/callout-icon'
+import type { DiagramLang } from '@/lib/markdown/diagrams'
+
+/**
+ * 把 renderMarkdown 输出的 HTML 转为 React 节点，替换图片、代码块、图表和提示块图标为交互组件
+ * 不依赖 marked / Shiki，服务端预渲染的文章页只需引入这里
+ */
+export function markdownHtmlToReact(html: string): ReactElement {
+	// Extract pre elements and replace with placeholders before parsing
+	const codeBlocks: Array<{ placeholder: string; code: string; preHtml: string; diagram?: DiagramLang }> = []
+	let processedHtml = html.replace(/<pre\s+data-code="([^"]*)"([^>]*)>([\s\S]*?)<\/pre>/g, (match, codeAttr, attrs, content) => {
+		const placeholder = `__CODE_BLOCK_${codeBlocks.length}__`
+		// Decode HTML entities in code attribute
+		const code = codeAttr
+			.replace(/&quot;/g, '"')
+			.replace(/&#39;/g, "'")
+			.replace(/&lt;/g, '<')
+			.replace(/&gt;/g, '>')
+			.replace(/&amp;/g, '&')
+		codeBlocks.push({
+			placeholder,
+			code,
+			preHtml: `${content}`,
+			diagram: attrs.match(/data-diagram="(\w+)"/)?.[1] as DiagramLang | undefined
+		})
+		return placeholder
+	})
+
+	// Parse HTML and replace img elements and code block placeholders
+	const options: HTMLReactParserOptions = {
+		replace(domNode: DOMNode) {
+			if (domNode instanceof Element && domNode.name === 'img') {
+				const { src, alt, title } = domNode.attribs
+				return <MarkdownImage src={src} alt={alt} title={title} />
+			}
+			if (domNode instanceof Element && domNode.attribs['data-callout-icon']) {
+				return <CalloutIcon kind={domNode.attribs['data-callout-icon']} />
+			}
+			// Handle code block placeholders in text nodes
+			if (domNode.type === 'text' && domNode.data && domNode.data.includes('__CODE_BLOCK_')) {
+				const text = domNode.data
+				const result = text.split(/(__CODE_BLOCK_\d+__)/).filter(Boolean)
+
+				return (
+					<>
+						{result.map((item, index) => {
+							if (item.startsWith('__CODE_BLOCK_')) {
+								const block = codeBlocks.find(b => b.placeholder === item)
+								if (block?.diagram) {
+									return <DiagramBlock key={block.placeholder} lang={block.diagram} code={block.code} />
+								}
+								if (block) {
+									const preElement = parse(block.preHtml) as ReactElement
+									return (
+										<CodeBlock key={block.placeholder} code={block.code}>
+											{preElement}
+										</CodeBlock>
+									)
+								}
+							} else {
+								return item ? <Fragment key={index}>{item}</Fragment> : null
+							}
+						})}
+					</>
+				)
+			}
+		}
+	}
+	return parse(processedHtml, options) as ReactElement
+}
@@ -1,135 +1,37 @@
-import { marked } from 'marked'
-import type { Tokens } from 'marked'
-
-export type TocItem = { id: string; text: string; level: number }
-
-export interface MarkdownRenderResult {
-	html: string
-	toc: TocItem[]
-}
-
-export function slugify(text: string): string {
-	return text
-		.toLowerCase()
-		.replace(/[^a-z0-9\u4e00-\u9fa5\s-]/g, '')
-		.trim()
-		.replace(/\s+/g, '-')
-}
-
-// Lazy load shiki to handle environments where it's not available (e.g., Cloudflare Workers)
-let shikiModule: typeof import('shiki') | null = null
-let shikiLoadAttempted = false
-
-async function loadShiki() {
-	if (shikiLoadAttempted) {
-		return shikiModule
-	}
-	shikiLoadAttempted = true
-
-	try {
-		shikiModule = await import('shiki')
-		return shikiModule
-	} catch (error) {
-		console.warn('Failed to load shiki module:', error)
-		return null
-	}
-}
-
-export async function renderMarkdown(markdown: string): Promise<MarkdownRenderResult> {
-	// Pre-process with marked lexer first
-	const tokens = marked.lexer(markdown)
-
-	// Extract TOC from parsed tokens (this correctly skips code blocks)
-	const toc: TocItem[] = []
-	function extractHeadings(tokenList: typeof tokens) {
-		for (const token of tokenList) {
-			if (token.type === 'heading' && token.depth <= 3) {
-				// Use the parsed text (markdown syntax like links/code already stripped)
-				const text = token.text
-				const id = slugify(text)
-				toc.push({ id, text, level: token.depth })
-			}
-			// Recursively check nested tokens (e.g., in blockquotes, lists)
-			if ('tokens' in token && token.tokens) {
-				extractHeadings(token.tokens as typeof tokens)
-			}
-		}
-	}
-	extractHeadings(tokens)
-
-	// Pre-process code blocks with Shiki
-	const codeBlockMap = new Map<string, { html: string; original: string }>()
-	const shiki = await loadShiki()
-
-	for (const token of tokens) {
-		if (token.type === 'code') {
-			const codeToken = token as Tokens.Code
-			const originalCode = codeToken.text
-			const key = `__SHIKI_CODE_${codeBlockMap.size}__`
-
-			if (shiki) {
-				try {
-					const html = await shiki.codeToHtml(originalCode, {
-						lang: codeToken.lang || 'text',
-						theme: 'one-light'
-					})
-					codeBlockMap.set(key, { html, original: originalCode })
-					codeToken.text = key
-				} catch {
-					// Keep original if highlighting fails
-					codeBlockMap.set(key, { html: '', original: originalCode })
-					codeToken.text = key
-				}
-			} else {
-				// Fallback when shiki is not available
-				codeBlockMap.set(key, { html: '', original: originalCode })
-				codeToken.text = key
-			}
-		}
-	}
-
-	// Render HTML with heading ids
-	const renderer = new marked.Renderer()
-
-	renderer.heading = (token: Tokens.Heading) => {
-		const id = slugify(token.text || '')
-		return `<h${token.depth} id="${id}">${token.text}</h${token.depth}>`
-	}
-
-	renderer.code = (token: Tokens.Code) => {
-		// Check if this code block was pre-processed
-		const codeData = codeBlockMap.get(token.text)
-		if (codeData) {
-			// Add data-code attribute with original code for copy functionality
-			// Escape HTML entities for attribute value
-			const escapedCode = codeData.original.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#39;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
-			if (codeData.html) {
-				// Shiki highlighted code
-				return `<pre data-code="${escapedCode}">${codeData.html}</pre>`
-			}
-			// Fallback for failed highlighting
-			return `<pre data-code="${escapedCode}"><code>${codeData.original}</code></pre>`
-		}
-		// Fallback to default (inline code, not code block)
-		return `<code>${token.text}</code>`
-	}
-
-	renderer.listitem = (token: Tokens.ListItem) => {
-		// Render inline markdown inside list items (e.g. links, emphasis)
-		const inner = token.tokens ? (marked.parser(token.tokens) as string) : token.text
-
-		if (token.task) {
-			const checkbox = token.checked ? '<input type="checkbox" checked disabled />' : '<input type="checkbox" disabled />'
-			return `<li class="task-list-item">${checkbox} ${inner}</li>\n`
-		}
-
-		return `<li>${inner}</li>\n`
-	}
-
-	marked.use({
-		renderer
-	})
-	const html = (marked.parser(tokens) as string) || ''
-
-	return { html, toc }
-}
\ No newline at end of file
+import { createMarkdownPipeline, type MarkdownPlugin } from './markdown/pipeline'
+import { headingsPlugin } from './markdown/headings'
+import { codeHighlightPlugin } from './markdown/code-highlight'
+import { taskListPlugin } from './markdown/task-list'
+import { mathPlugin } from './markdown/math'
+import { diagramPlugin } from './markdown/diagrams'
+import { calloutPlugin } from './markdown/callouts'
+import { footnotesPlugin } from './markdown/footnotes'
+import { definitionListPlugin } from './markdown/definition-list'
+import { abbreviationsPlugin } from './markdown/abbreviations'
+import { createSanitizePlugin } from './markdown/sanitize'
+
+export type { FootnoteItem, MarkdownEnv, MarkdownPipeline, MarkdownPlugin, MarkdownRenderResult, TocItem } from './markdown/pipeline'
+export { createMarkdownPipeline } from './markdown/pipeline'
+export { slugify } from './markdown/headings'
+
+/**
+ * Plugins used by the blog page and the write preview, in order.
+ * Add new markdown features here instead of patching the renderer.
+ */
+export const MARKDOWN_PLUGINS: MarkdownPlugin[] = [
+	headingsPlugin,
+	diagramPlugin,
+	codeHighlightPlugin,
+	taskListPlugin,
+	mathPlugin,
+	calloutPlugin,
+	footnotesPlugin,
+	definitionListPlugin,
+	abbreviationsPlugin,
+	// Must stay last
+	createSanitizePlugin()
+]
+
+const pipeline = createMarkdownPipeline(MARKDOWN_PLUGINS)
+
+export const renderMarkdown = pipeline.render
@@ -0,0 +1,76 @@
+import type { Tokens } from 'marked'
+import { escapeHtml, type MarkdownPlugin } from './pipeline'
+
+type AbbrTextToken = Tokens.Generic & { parts: Array<string | { abbr: string; title: string }>; escaped?: boolean }
+
+const DEF_RULE = /^ {0,3}\*\[([^\]\n]+)\]:[ \t]*(.*)$/
+const FENCE_RULE = /^ {0,3}(`{3,}|~{3,})/
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Abbreviations: `*[HTML]: Hyper Text Markup Language` wraps every "HTML" in the article text with `<abbr>`
+ */
+export const abbreviationsPlugin: MarkdownPlugin = {
+	name: 'abbreviations',
+	// Collect and strip the definitions in one pass over the source, skipping fenced code.
+	// A block tokenizer would rescan the rest of the document for its `start` on every paragraph
+	preprocess(markdown, env) {
+		if (!markdown.includes('*[')) return markdown
+		let fence: string | null = null
+		return markdown
+			.split('\n')
+			.map(line => {
+				const fenceMatch = FENCE_RULE.exec(line)
+				if (fence) {
+					if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null
+					return line
+				}
+				if (fenceMatch) {
+					fence = fenceMatch[1]
+					return line
+				}
+				const match = DEF_RULE.exec(line)
+				if (!match) return line
+				env.abbreviations.set(match[1].trim(), match[2].trim())
+				return ''
+			})
+			.join('\n')
+	},
+	marked: {
+		extensions: [
+			{
+				name: 'abbrText',
+				renderer(token) {
+					const { parts, escaped } = token as AbbrTextToken
+					return parts
+						.map(part => {
+							if (typeof part === 'string') return escaped ? part : escapeHtml(part)
+							return `<abbr title="${escapeHtml(part.title)}">${escapeHtml(part.abbr)}</abbr>`
+						})
+						.join('')
+				}
+			}
+		]
+	},
+	transformTokens(tokens, env, walk) {
+		const titles = env.abbreviations
+		if (titles.size === 0) return
+
+		// Longest first so "HTML5" wins over "HTML"
+		const pattern = Array.from(titles.keys())
+			.sort((a, b) => b.length - a.length)
+			.map(escapeRegExp)
+			.join('|')
+		const matcher = new RegExp(`(?<![\\p{L}\\p{N}_])(${pattern})(?![\\p{L}\\p{N}_])`, 'u')
+
+		walk(tokens, token => {
+			// Only leaf inline text; block text tokens carry their inline tokens
+			if (token.type !== 'text' || ('tokens' in token && token.tokens)) return
+			const pieces = token.text.split(matcher)
+			if (pieces.length === 1) return
+			const parts = pieces.map((piece: string, index: number) => (index % 2 === 1 ? { abbr: piece, title: titles.get(piece) ?? '' } : piece)).filter(Boolean)
+			Object.assign(token, { type: 'abbrText', parts } satisfies Partial<AbbrTextToken>)
+		})
+	}
+}
@@ -0,0 +1,78 @@
+import type { Token, Tokens } from 'marked'
+import type { MarkdownPlugin } from './pipeline'
+
+export type CalloutKind = 'note' | 'tip' | 'important' | 'warning' | 'caution'
+
+export const CALLOUT_TITLES: Record<CalloutKind, string> = {
+	note: '备注',
+	tip: '提示',
+	important: '重要',
+	warning: '警告',
+	caution: '注意'
+}
+
+// GitHub alert types, plus common Obsidian aliases
+const CALLOUT_ALIASES: Record<string, CalloutKind> = {
+	note: 'note',
+	info: 'note',
+	tip: 'tip',
+	hint: 'tip',
+	important: 'important',
+	warning: 'warning',
+	attention: 'warning',
+	caution: 'caution',
+	danger: 'caution',
+	error: 'caution'
+}
+
+type CalloutToken = Tokens.Generic & {
+	kind: CalloutKind
+	tokens: Token[]
+	titleTokens: Token[]
+}
+
+// `> [!NOTE]` or `> [!NOTE] Custom title` followed by the rest of the blockquote
+const CALLOUT_RULE = /^ {0,3}> ?\[!([a-zA-Z]+)\][ \t]*([^\n]*)(?:\n|$)((?: {0,3}>[^\n]*(?:\n|$))*)/
+
+/**
+ * GitHub alerts (`> [!NOTE]`, `> [!TIP]`, ...) with an optional custom title after the marker.
+ * The icon is a `data-callout-icon` placeholder, swapped for a lucide icon by `useMarkdownRender`.
+ */
+export const calloutPlugin: MarkdownPlugin = {
+	name: 'callouts',
+	marked: {
+		extensions: [
+			{
+				name: 'callout',
+				level: 'block',
+				childTokens: ['titleTokens', 'tokens'],
+				start: src => src.match(/^ {0,3}> ?\[!/m)?.index,
+				tokenizer(src) {
+					const match = CALLOUT_RULE.exec(src)
+					if (!match) return undefined
+					const kind = CALLOUT_ALIASES[match[1].toLowerCase()]
+					// Unknown types stay regular blockquotes
+					if (!kind) return undefined
+
+					const body = match[3].replace(/^ {0,3}> ?/gm, '')
+					return {
+						type: 'callout',
+						raw: match[0],
+						kind,
+						titleTokens: this.lexer.inlineTokens(match[2].trim()),
+						tokens: this.lexer.blockTokens(body, [])
+					} satisfies CalloutToken
+				},
+				renderer(token) {
+					const { kind, titleTokens, tokens } = token as CalloutToken
+					const title = titleTokens.length > 0 ? this.parser.parseInline(titleTokens) : CALLOUT_TITLES[kind]
+					return (
+						`<div class="callout callout-${kind}" data-callout="${kind}">` +
+						`<p class="callout-title"><span data-callout-icon="${kind}"></span>${title}</p>` +
+						`${this.parser.parse(tokens)}</div>\n`
+					)
+				}
+			}
+		]
+	}
+}
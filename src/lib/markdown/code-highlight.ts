@@ -0,0 +1,63 @@
+import type { Tokens } from 'marked'
+import { escapeHtml, type MarkdownPlugin } from './pipeline'
+
+// Lazy load shiki to handle environments where it's not available (e.g., Cloudflare Workers)
+let shikiModule: typeof import('shiki') | null = null
+let shikiLoadAttempted = false
+
+async function loadShiki() {
+	if (shikiLoadAttempted) {
+		return shikiModule
+	}
+	shikiLoadAttempted = true
+
+	try {
+		shikiModule = await import('shiki')
+		return shikiModule
+	} catch (error) {
+		console.warn('Failed to load shiki module:', error)
+		return null
+	}
+}
+
+type HighlightedCode = Tokens.Code & { highlighted?: string }
+
+/**
+ * Code fences highlighted with Shiki.
+ * The original source is kept in `data-code` for the copy button in `CodeBlock`.
+ */
+export const codeHighlightPlugin: MarkdownPlugin = {
+	name: 'code-highlight',
+	marked: {
+		renderer: {
+			code(token: HighlightedCode) {
+				// Escape HTML entities for attribute value
+				const pre = `<pre data-code="${escapeHtml(token.text)}">`
+				if (token.highlighted) return `${pre}${token.highlighted}</pre>`
+				// Fallback when shiki is not available or highlighting failed
+				return `${pre}<code>${escapeHtml(token.text)}</code></pre>`
+			}
+		}
+	},
+	async transformTokens(tokens, _env, walk) {
+		const codeTokens: HighlightedCode[] = []
+		walk(tokens, token => {
+			if (token.type === 'code') codeTokens.push(token as HighlightedCode)
+		})
+		if (codeTokens.length === 0) return
+
+		const shiki = await loadShiki()
+		if (!shiki) return
+
+		for (const token of codeTokens) {
+			try {
+				token.highlighted = await shiki.codeToHtml(token.text, {
+					lang: token.lang || 'text',
+					theme: 'one-light'
+				})
+			} catch {
+				// Keep original if highlighting fails
+			}
+		}
+	}
+}
@@ -0,0 +1,89 @@
+import type { Token, Tokens } from 'marked'
+import type { MarkdownPlugin } from './pipeline'
+
+type DefinitionListToken = Tokens.Generic & { tokens: Token[] }
+
+type DefinitionToken = Tokens.Generic & { tokens: Token[] }
+
+const DESC_RULE = /^ {0,3}:[ \t]+/
+// Term lines directly followed by a definition; only reads up to the first blank line
+const LIST_START_RULE = /^(?:[^\n]+\n)+? {0,3}:[ \t]/
+// Lines that start another block can't be terms
+const NOT_TERM_RULE = /^(?: {4}|\t| {0,3}(?:[#>|]|[*+-][ \t]|\d{1,9}[.)][ \t]|`{3}|~{3}))/
+
+/**
+ * Definition lists (PHP Markdown Extra syntax):
+ *
+ *     Term
+ *     : Definition, continued by indented lines
+ */
+export const definitionListPlugin: MarkdownPlugin = {
+	name: 'definition-list',
+	marked: {
+		extensions: [
+			{
+				name: 'definitionList',
+				level: 'block',
+				start(src) {
+					// Find the definition line, then step back to its term; `^[^\n]+\n` backtracks on every line of the document
+					const rule = /\n {0,3}:[ \t]/g
+					for (let match = rule.exec(src); match; match = rule.exec(src)) {
+						const termStart = src.lastIndexOf('\n', match.index - 1) + 1
+						if (termStart < match.index) return termStart
+					}
+					return undefined
+				},
+				tokenizer(src) {
+					// Called at every block, so check the leading lines before splitting the whole rest of the document
+					if (!LIST_START_RULE.test(src)) return undefined
+					const lines = src.split('\n')
+					const children: Token[] = []
+					let end = 0
+					let i = 0
+
+					while (i < lines.length) {
+						const termStart = i
+						while (i < lines.length && lines[i].trim() && !DESC_RULE.test(lines[i]) && !NOT_TERM_RULE.test(lines[i])) i++
+						if (i === termStart || i >= lines.length || !DESC_RULE.test(lines[i])) break
+
+						for (const term of lines.slice(termStart, i)) {
+							children.push({ type: 'definitionTerm', raw: term, tokens: this.lexer.inlineTokens(term.trim()) } satisfies DefinitionToken)
+						}
+						while (i < lines.length && DESC_RULE.test(lines[i])) {
+							const descLines = [lines[i].replace(DESC_RULE, '')]
+							i++
+							while (i < lines.length && /^(?: {2,}|\t)\S/.test(lines[i])) descLines.push(lines[i++].replace(/^(?: {1,4}|\t)/, ''))
+							const text = descLines.join('\n')
+							children.push({ type: 'definitionDesc', raw: text, tokens: this.lexer.inlineTokens(text) } satisfies DefinitionToken)
+						}
+						end = i
+						// Blank lines end the list unless another term and definition follow
+						let next = i
+						while (next < lines.length && !lines[next].trim()) next++
+						if (next > i && !(next + 1 < lines.length && DESC_RULE.test(lines[next + 1]))) break
+						i = next
+					}
+
+					if (children.length === 0) return undefined
+					const raw = lines.slice(0, end).join('\n') + (end < lines.length ? '\n' : '')
+					return { type: 'definitionList', raw, tokens: children } satisfies DefinitionListToken
+				},
+				renderer(token) {
+					return `<dl>\n${this.parser.parse((token as DefinitionListToken).tokens)}</dl>\n`
+				}
+			},
+			{
+				name: 'definitionTerm',
+				renderer(token) {
+					return `<dt>${this.parser.parseInline((token as DefinitionToken).tokens)}</dt>\n`
+				}
+			},
+			{
+				name: 'definitionDesc',
+				renderer(token) {
+					return `<dd>${this.parser.parseInline((token as DefinitionToken).tokens)}</dd>\n`
+				}
+			}
+		]
+	}
+}
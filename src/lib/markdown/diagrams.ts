@@ -0,0 +1,46 @@
+import type { Tokens } from 'marked'
+import { escapeHtml, type MarkdownPlugin } from './pipeline'
+
+export type DiagramLang = 'mermaid' | 'dot'
+
+const DIAGRAM_ALIASES: Record<string, DiagramLang> = {
+	mermaid: 'mermaid',
+	dot: 'dot',
+	graphviz: 'dot'
+}
+
+export function getDiagramLang(lang: string | undefined): DiagramLang | null {
+	return (lang && DIAGRAM_ALIASES[lang.trim().toLowerCase()]) || null
+}
+
+type DiagramToken = Tokens.Generic & { text: string; diagram: DiagramLang }
+
+/**
+ * Diagram fences (mermaid, dot / graphviz).
+ * They are rendered as plain source with `data-diagram`; `useMarkdownRender` swaps them for
+ * `DiagramBlock`, which loads the diagram library on the client and keeps the source as fallback.
+ * Must be registered before the code highlight plugin so these fences skip Shiki.
+ */
+export const diagramPlugin: MarkdownPlugin = {
+	name: 'diagrams',
+	marked: {
+		extensions: [
+			{
+				name: 'diagram',
+				renderer(token) {
+					const { text, diagram } = token as DiagramToken
+					const code = escapeHtml(text)
+					return `<pre data-code="${code}" data-diagram="${diagram}"><code>${code}</code></pre>`
+				}
+			}
+		]
+	},
+	transformTokens(tokens, _env, walk) {
+		walk(tokens, token => {
+			if (token.type !== 'code') return
+			const diagram = getDiagramLang(token.lang)
+			if (!diagram) return
+			Object.assign(token, { type: 'diagram', diagram })
+		})
+	}
+}
@@ -0,0 +1,117 @@
+import type { Token, Tokens } from 'marked'
+import { escapeHtml, type FootnoteItem, type MarkdownPlugin } from './pipeline'
+
+type FootnoteDefToken = Tokens.Generic & { label: string; tokens: Token[] }
+
+type FootnoteRefToken = Tokens.Generic & { label: string; footnote?: FootnoteItem; refId?: string }
+
+type FootnoteEntry = { footnote: FootnoteItem; tokens: Token[]; refIds: string[] }
+
+type FootnotesToken = Tokens.Generic & { entries: FootnoteEntry[] }
+
+// `[^label]: text`, continued by indented lines (blank lines allowed in between)
+const DEF_RULE = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]*([^\n]*(?:\n(?:[ \t]*\n)*(?: {2,}|\t)[^\n]*)*)(?:\n+|$)/
+const REF_RULE = /^\[\^([^\]\s]+)\]/
+
+// Text of inline tokens without markup; raw HTML is dropped, math keeps its TeX source
+const toPlainText = (tokens: Token[]): string =>
+	tokens
+		.map(token => {
+			if (token.type === 'html') return ''
+			if (token.type === 'br') return ' '
+			if ('tokens' in token && token.tokens) return toPlainText(token.tokens)
+			return 'text' in token && typeof token.text === 'string' ? token.text : ''
+		})
+		.join('')
+
+/**
+ * Footnotes: `[^1]` references with back-links and a footnotes section at the end of the article.
+ * Numbered by first reference; definitions that are never referenced are dropped, like on GitHub.
+ */
+export const footnotesPlugin: MarkdownPlugin = {
+	name: 'footnotes',
+	marked: {
+		extensions: [
+			{
+				name: 'footnoteDef',
+				level: 'block',
+				start: src => src.match(/^ {0,3}\[\^[^\]\s]+\]:/m)?.index,
+				tokenizer(src) {
+					const match = DEF_RULE.exec(src)
+					if (!match) return undefined
+					const content = match[2].replace(/^(?: {1,4}|\t)/gm, '')
+					return { type: 'footnoteDef', raw: match[0], label: match[1], tokens: this.lexer.blockTokens(content, []) } satisfies FootnoteDefToken
+				},
+				// Rendered in the footnotes section instead
+				renderer: () => ''
+			},
+			{
+				name: 'footnoteRef',
+				level: 'inline',
+				start: src => src.indexOf('[^'),
+				tokenizer(src) {
+					const match = REF_RULE.exec(src)
+					if (!match) return undefined
+					return { type: 'footnoteRef', raw: match[0], label: match[1] } satisfies FootnoteRefToken
+				},
+				renderer(token) {
+					const { footnote, refId, raw } = token as FootnoteRefToken
+					// No matching definition, keep the source text
+					if (!footnote || !refId) return escapeHtml(raw)
+					return `<sup class="footnote-ref"><a href="#${footnote.id}" id="${refId}" data-footnote-ref>${footnote.number}</a></sup>`
+				}
+			},
+			{
+				name: 'footnotes',
+				renderer(token) {
+					const items = (token as FootnotesToken).entries.map(({ footnote, tokens, refIds }) => {
+						footnote.text = tokens
+							.map(child => ('tokens' in child && child.tokens ? toPlainText(child.tokens) : ''))
+							.join(' ')
+							.replace(/\s+/g, ' ')
+							.trim()
+
+						const backrefs = refIds
+							.map((id, index) => `<a href="#${id}" class="footnote-backref" aria-label="返回正文">↩${index > 0 ? `<sup>${index + 1}</sup>` : ''}</a>`)
+							.join(' ')
+						const content = this.parser.parse(tokens)
+						// Put back-links at the end of the last paragraph when possible
+						const body = /<\/p>\s*$/.test(content) ? content.replace(/<\/p>\s*$/, ` ${backrefs}</p>\n`) : `${content}${backrefs}\n`
+						return `<li id="${footnote.id}">${body}</li>`
+					})
+					return `<section class="footnotes" data-footnotes>\n<ol>\n${items.join('\n')}\n</ol>\n</section>\n`
+				}
+			}
+		]
+	},
+	transformTokens(tokens, env, walk) {
+		const defs = new Map<string, FootnoteDefToken>()
+		walk(tokens, token => {
+			if (token.type === 'footnoteDef' && !defs.has(token.label)) defs.set(token.label, token as FootnoteDefToken)
+		})
+		if (defs.size === 0) return
+
+		const entries = new Map<string, FootnoteEntry>()
+		walk(tokens, token => {
+			if (token.type !== 'footnoteRef') return
+			const ref = token as FootnoteRefToken
+			const def = defs.get(ref.label)
+			if (!def) return
+
+			let entry = entries.get(ref.label)
+			if (!entry) {
+				const number = entries.size + 1
+				entry = { footnote: { id: `fn-${number}`, number, text: '' }, tokens: def.tokens, refIds: [] }
+				entries.set(ref.label, entry)
+			}
+			const { number } = entry.footnote
+			ref.footnote = entry.footnote
+			ref.refId = entry.refIds.length === 0 ? `fnref-${number}` : `fnref-${number}-${entry.refIds.length + 1}`
+			entry.refIds.push(ref.refId)
+		})
+		if (entries.size === 0) return
+
+		env.footnotes = Array.from(entries.values()).map(entry => entry.footnote)
+		tokens.push({ type: 'footnotes', raw: '', entries: Array.from(entries.values()) } satisfies FootnotesToken)
+	}
+}
@@ -0,0 +1,45 @@
+import type { Tokens } from 'marked'
+import type { MarkdownPlugin } from './pipeline'
+
+type HeadingToken = Tokens.Heading & { anchorId?: string }
+
+export function slugify(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/[^a-z0-9\u4e00-\u9fa5\s-]/g, '')
+		.trim()
+		.replace(/\s+/g, '-')
+}
+
+/**
+ * Heading anchors and the table of contents (h1-h3)
+ */
+export const headingsPlugin: MarkdownPlugin = {
+	name: 'headings',
+	marked: {
+		renderer: {
+			heading(token: HeadingToken) {
+				const id = token.anchorId ?? slugify(token.text || '')
+				return `<h${token.depth} id="${id}">${token.text}</h${token.depth}>`
+			}
+		}
+	},
+	transformTokens(tokens, env, walk) {
+		// Repeated headings get `-1`, `-2`, ... so every anchor is unique
+		const used = new Set<string>()
+		// Walking parsed tokens correctly skips headings inside code blocks
+		walk(tokens, token => {
+			if (token.type !== 'heading') return
+			const slug = slugify(token.text)
+			let id = slug
+			for (let n = 1; used.has(id); n++) id = `${slug}-${n}`
+			used.add(id)
+			Object.assign(token, { anchorId: id } satisfies Partial<HeadingToken>)
+
+			if (token.depth <= 3) {
+				// Use the parsed text (markdown syntax like links/code already stripped)
+				env.toc.push({ id, text: token.text, level: token.depth })
+			}
+		})
+	}
+}
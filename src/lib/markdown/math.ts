@@ -0,0 +1,60 @@
+import katex from 'katex'
+import type { Tokens } from 'marked'
+import type { MarkdownPlugin } from './pipeline'
+
+type MathToken = Tokens.Generic & { text: string; displayMode: boolean }
+
+// $$ on its own lines (or a single line), up to 3 spaces of indentation like other block syntax
+const BLOCK_RULE = /^ {0,3}\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/
+// $$...$$ inside a paragraph renders in display mode
+const INLINE_DISPLAY_RULE = /^\$\$((?:\\[\s\S]|[^\\$])+?)\$\$/
+// No whitespace right inside the delimiters and no digit after, so "$5 and $10" stays text
+const INLINE_RULE = /^\$(?![\s$])((?:\\[\s\S]|[^\\\n$])+?)(?<!\s)\$(?!\d)/
+
+function renderMath(text: string, displayMode: boolean): string {
+	return katex.renderToString(text.trim(), {
+		displayMode,
+		throwOnError: false,
+		output: 'htmlAndMathml'
+	})
+}
+
+/**
+ * TeX formulas rendered to static HTML with KaTeX, so the same markup works on the server,
+ * on the blog page and in the write preview. Styles come from katex.css imported in the root layout.
+ */
+export const mathPlugin: MarkdownPlugin = {
+	name: 'math',
+	marked: {
+		extensions: [
+			{
+				name: 'mathBlock',
+				level: 'block',
+				start: src => src.match(/^ {0,3}\$\$/m)?.index,
+				tokenizer(src) {
+					const match = BLOCK_RULE.exec(src)
+					if (!match) return undefined
+					return { type: 'mathBlock', raw: match[0], text: match[1], displayMode: true } satisfies MathToken
+				},
+				renderer(token) {
+					return `<div class="math-block">${renderMath(token.text, true)}</div>\n`
+				}
+			},
+			{
+				name: 'mathInline',
+				level: 'inline',
+				start: src => src.indexOf('$'),
+				tokenizer(src) {
+					const display = INLINE_DISPLAY_RULE.exec(src)
+					if (display) return { type: 'mathInline', raw: display[0], text: display[1], displayMode: true } satisfies MathToken
+					const match = INLINE_RULE.exec(src)
+					if (!match) return undefined
+					return { type: 'mathInline', raw: match[0], text: match[1], displayMode: false } satisfies MathToken
+				},
+				renderer(token) {
+					return renderMath(token.text, token.displayMode)
+				}
+			}
+		]
+	}
+}
@@ -0,0 +1,122 @@
+import { Marked } from 'marked'
+import type { MarkedExtension, Token, TokensList } from 'marked'
+
+export type TocItem = { id: string; text: string; level: number }
+
+// `id` is the anchor of the entry in the footnotes section, `text` is its plain text
+export type FootnoteItem = { id: string; number: number; text: string }
+
+export interface MarkdownRenderResult {
+	html: string
+	toc: TocItem[]
+	footnotes: FootnoteItem[]
+}
+
+/**
+ * Per-render state shared by plugins. A fresh env is created for every render,
+ * so plugins never keep document data in module scope.
+ */
+export interface MarkdownEnv {
+	toc: TocItem[]
+	footnotes: FootnoteItem[]
+	// `*[HTML]: Hyper Text Markup Language` definitions, abbreviation -> title
+	abbreviations: Map<string, string>
+}
+
+/**
+ * A markdown feature (headings, code highlighting, callouts, ...).
+ * Hooks run in plugin order:
+ *   preprocess -> lexer -> transformTokens -> parser -> postprocess
+ */
+export interface MarkdownPlugin {
+	name: string
+	// Tokenizers / renderers / walkTokens, registered once on the pipeline's Marked instance.
+	// A renderer returning false falls back to the one registered before it.
+	marked?: MarkedExtension
+	// Rewrite the markdown source before lexing
+	preprocess?: (markdown: string, env: MarkdownEnv) => string
+	// Inspect or annotate tokens before rendering; the only async step besides postprocess.
+	// `walk` visits every token, including ones nested in lists, blockquotes, tables and plugin tokens
+	transformTokens?: (tokens: TokensList, env: MarkdownEnv, walk: TokenWalker) => void | Promise<void>
+	// Rewrite the rendered HTML
+	postprocess?: (html: string, env: MarkdownEnv) => string | Promise<string>
+}
+
+export type TokenWalker = (tokens: Token[], callback: (token: Token) => void) => void
+
+export interface MarkdownPipeline {
+	readonly plugins: readonly MarkdownPlugin[]
+	render: (markdown: string) => Promise<MarkdownRenderResult>
+}
+
+/**
+ * Configure a Marked instance once for the given plugins.
+ * Unlike `marked.use`, this never touches the global marked defaults.
+ */
+export function createMarkdownPipeline(plugins: MarkdownPlugin[]): MarkdownPipeline {
+	const names = new Set<string>()
+	for (const plugin of plugins) {
+		if (names.has(plugin.name)) throw new Error(`Duplicate markdown plugin: ${plugin.name}`)
+		names.add(plugin.name)
+	}
+
+	const instance = new Marked(...plugins.flatMap(plugin => (plugin.marked ? [plugin.marked] : [])))
+	const childTokens: Record<string, string[]> = instance.defaults.extensions?.childTokens ?? {}
+
+	// Same traversal order as `marked.walkTokens`, but without collecting callback results,
+	// which makes marked's version quadratic in the number of tokens
+	const walk: TokenWalker = (tokens, callback) => {
+		for (const token of tokens) {
+			callback(token)
+			switch (token.type) {
+				case 'table':
+					for (const cell of token.header) walk(cell.tokens, callback)
+					for (const row of token.rows) {
+						for (const cell of row) walk(cell.tokens, callback)
+					}
+					break
+				case 'list':
+					walk(token.items, callback)
+					break
+				default: {
+					const fields = childTokens[token.type]
+					if (fields) {
+						for (const field of fields) {
+							const children = (token as Record<string, unknown>)[field]
+							if (Array.isArray(children)) walk(children.flat(), callback)
+						}
+					} else if ('tokens' in token && token.tokens) {
+						walk(token.tokens, callback)
+					}
+				}
+			}
+		}
+	}
+
+	async function render(markdown: string): Promise<MarkdownRenderResult> {
+		const env: MarkdownEnv = { toc: [], footnotes: [], abbreviations: new Map() }
+
+		let source = markdown
+		for (const plugin of plugins) {
+			if (plugin.preprocess) source = plugin.preprocess(source, env)
+		}
+
+		const tokens = instance.lexer(source)
+		for (const plugin of plugins) {
+			if (plugin.transformTokens) await plugin.transformTokens(tokens, env, walk)
+		}
+
+		let html = (instance.parser(tokens) as string) || ''
+		for (const plugin of plugins) {
+			if (plugin.postprocess) html = await plugin.postprocess(html, env)
+		}
+
+		return { html, toc: env.toc, footnotes: env.footnotes }
+	}
+
+	return { plugins, render }
+}
+
+export function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#39;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
@@ -0,0 +1,156 @@
+import sanitizeHtml from 'sanitize-html'
+import sanitizeConfig from '@/config/markdown-sanitize.json'
+import type { MarkdownPlugin } from './pipeline'
+
+export type SanitizeConfig = {
+	allowedTags: string[]
+	allowedAttributes: Record<string, string[]>
+	allowedSchemes: string[]
+	allowedImageSchemes: string[]
+	allowedIframeHostnames: string[]
+}
+
+// Markup produced by the markdown plugins themselves (KaTeX, task lists), always allowed
+const MATHML_TAGS = [
+	'math',
+	'semantics',
+	'annotation',
+	'mrow',
+	'mi',
+	'mn',
+	'mo',
+	'ms',
+	'mtext',
+	'mspace',
+	'mfrac',
+	'msqrt',
+	'mroot',
+	'msub',
+	'msup',
+	'msubsup',
+	'munder',
+	'mover',
+	'munderover',
+	'mtable',
+	'mtr',
+	'mtd',
+	'mstyle',
+	'mpadded',
+	'mphantom',
+	'menclose'
+]
+const PLUGIN_TAGS = [...MATHML_TAGS, 'svg', 'path', 'line', 'input']
+const PLUGIN_ATTRIBUTES: Record<string, string[]> = {
+	// Heading and footnote anchors; raw HTML loses its ids in transformTokens
+	'*': ['style', 'id'],
+	pre: ['tabindex'],
+	input: ['type', 'checked', 'disabled'],
+	math: ['xmlns', 'display'],
+	annotation: ['encoding'],
+	mo: ['fence', 'stretchy', 'accent', 'lspace', 'rspace', 'minsize', 'maxsize', 'separator'],
+	mover: ['accent'],
+	munder: ['accentunder'],
+	munderover: ['accent', 'accentunder'],
+	mstyle: ['scriptlevel', 'displaystyle', 'mathcolor', 'mathsize'],
+	mpadded: ['width', 'height', 'depth', 'lspace', 'voffset'],
+	mspace: ['width', 'height', 'depth'],
+	menclose: ['notation'],
+	mtable: ['rowspacing', 'columnspacing', 'columnalign', 'rowalign', 'columnlines', 'rowlines', 'frame'],
+	mtd: ['columnalign', 'rowspan', 'columnspan'],
+	mi: ['mathvariant'],
+	svg: ['xmlns', 'width', 'height', 'viewBox', 'preserveAspectRatio'],
+	path: ['d'],
+	line: ['x1', 'y1', 'x2', 'y2', 'stroke-width']
+}
+
+// Inline styles come from Shiki and KaTeX; layout-breaking properties like position are not allowed
+const STYLE_PROPERTIES = [
+	'color',
+	'background-color',
+	'font-style',
+	'font-weight',
+	'text-decoration',
+	'text-align',
+	'vertical-align',
+	'width',
+	'height',
+	'min-width',
+	'max-width',
+	'top',
+	'left',
+	'margin',
+	'margin-top',
+	'margin-right',
+	'margin-bottom',
+	'margin-left',
+	'padding',
+	'padding-top',
+	'padding-right',
+	'padding-bottom',
+	'padding-left',
+	'border-color',
+	'border-style',
+	'border-width',
+	'border-top-width',
+	'border-bottom-width',
+	'border-right-width',
+	'border-left-width'
+]
+const SAFE_STYLE_VALUE = /^(?!.*(?:url|expression)\s*\()[^;<>"'\\]*$/i
+
+// Start tags in raw HTML; like browsers, `/` also separates attributes
+const ATTRIBUTE_RULE = /[\s/]+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?/g
+const START_TAG_RULE = new RegExp(`<([a-zA-Z][^\\s/>]*)((?:${ATTRIBUTE_RULE.source})*)([\\s/]*)>`, 'g')
+
+// Ids written in raw HTML could duplicate or shadow the generated heading and footnote anchors
+const stripIds = (html: string): string =>
+	html.replace(START_TAG_RULE, (_tag, name: string, attributes: string, end: string) => {
+		const kept = attributes.replace(ATTRIBUTE_RULE, attribute => (/^[\s/]+id(?=[\s=]|$)/i.test(attribute) ? '' : attribute))
+		return `<${name}${kept}${end}>`
+	})
+
+function buildOptions(config: SanitizeConfig): sanitizeHtml.IOptions {
+	const allowedAttributes: Record<string, string[]> = { ...config.allowedAttributes }
+	for (const [tag, attributes] of Object.entries(PLUGIN_ATTRIBUTES)) {
+		allowedAttributes[tag] = [...(allowedAttributes[tag] ?? []), ...attributes]
+	}
+	const safeStyle = Object.fromEntries(STYLE_PROPERTIES.map(property => [property, [SAFE_STYLE_VALUE]]))
+
+	return {
+		allowedTags: [...config.allowedTags, ...PLUGIN_TAGS],
+		allowedAttributes,
+		allowedSchemes: config.allowedSchemes,
+		allowedSchemesByTag: { img: config.allowedImageSchemes, source: config.allowedImageSchemes },
+		allowProtocolRelative: false,
+		allowedIframeHostnames: config.allowedIframeHostnames,
+		allowedStyles: { '*': safeStyle },
+		// MathML/SVG attribute names are case sensitive (viewBox)
+		parser: { lowerCaseAttributeNames: false },
+		transformTags: {
+			a: (tagName, attribs) => ({
+				tagName,
+				attribs: attribs.target === '_blank' ? { ...attribs, rel: 'noopener noreferrer' } : attribs
+			})
+		},
+		// Only the read-only checkboxes of task lists
+		exclusiveFilter: frame => frame.tag === 'input' && (frame.attribs.type !== 'checkbox' || frame.attribs.disabled === undefined)
+	}
+}
+
+/**
+ * Allow-list sanitizer for raw HTML in markdown, applied to the final HTML.
+ * Tags, attributes, URL schemes and iframe hosts are configured in `src/config/markdown-sanitize.json`.
+ * Register it last so it also covers markup produced by earlier plugins.
+ */
+export function createSanitizePlugin(config: SanitizeConfig = sanitizeConfig): MarkdownPlugin {
+	const options = buildOptions(config)
+	return {
+		name: 'sanitize',
+		transformTokens(tokens, _env, walk) {
+			walk(tokens, token => {
+				if (token.type === 'html') token.text = stripIds(token.text)
+			})
+		},
+		postprocess: html => sanitizeHtml(html, options)
+	}
+}
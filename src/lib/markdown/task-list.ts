@@ -0,0 +1,21 @@
+import type { Tokens } from 'marked'
+import type { MarkdownPlugin } from './pipeline'
+
+/**
+ * GFM task list items, rendered as read-only checkboxes
+ */
+export const taskListPlugin: MarkdownPlugin = {
+	name: 'task-list',
+	marked: {
+		renderer: {
+			checkbox({ checked }: Tokens.Checkbox) {
+				return checked ? '<input type="checkbox" checked disabled /> ' : '<input type="checkbox" disabled /> '
+			},
+			listitem(token: Tokens.ListItem) {
+				// Render inline markdown inside list items (e.g. links, emphasis)
+				const inner = this.parser.parse(token.tokens)
+				return token.task ? `<li class="task-list-item">${inner}</li>\n` : `<li>${inner}</li>\n`
+			}
+		}
+	}
+}
@@ -0,0 +1,149 @@
+import dayjs from 'dayjs'
+import siteContent from '@/config/site-content.json'
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+export const OG_MAX_TAGS = 4
+
+export type OgImagePost = {
+	title: string
+	tags?: string[]
+	date?: string
+}
+
+export const formatOgDate = (date?: string): string => (date && dayjs(date).isValid() ? dayjs(date).format('YYYY年 M月 D日') : '')
+
+const AVATAR_URL = '/images/avatar.png'
+const FONT_FAMILY = '"PingFang SC", "Noto Sans SC", "Microsoft YaHei", sans-serif'
+const PADDING_X = 80
+const PADDING_Y = 72
+const TITLE_MAX_LINES = 3
+const TAG_FONT_SIZE = 26
+const TAG_HEIGHT = 48
+const AVATAR_SIZE = 72
+
+const loadImage = (src: string): Promise<HTMLImageElement | null> =>
+	new Promise(resolve => {
+		const image = new Image()
+		image.onload = () => resolve(image)
+		image.onerror = () => resolve(null)
+		image.src = src
+	})
+
+/**
+ * 英文单词整体换行，中文逐字换行；超出行数时末行加省略号
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+	const lines: string[] = []
+	let line = ''
+	for (const word of text.match(/[\w'’.-]+|\s+|[^\w\s]/gu) ?? []) {
+		// 单个单词比整行还宽时逐字拆开
+		for (const piece of ctx.measureText(word).width > maxWidth ? Array.from(word) : [word]) {
+			if (line && ctx.measureText(line + piece).width > maxWidth) {
+				lines.push(line.trimEnd())
+				line = piece.trimStart()
+			} else {
+				line += piece
+			}
+		}
+	}
+	if (line.trim()) lines.push(line.trimEnd())
+	if (lines.length <= maxLines) return lines
+
+	let last = Array.from(lines[maxLines - 1])
+	while (last.length && ctx.measureText(`${last.join('')}…`).width > maxWidth) last = last.slice(0, -1)
+	return [...lines.slice(0, maxLines - 1), `${last.join('')}…`]
+}
+
+function drawPill(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) {
+	ctx.beginPath()
+	ctx.roundRect(x, y, width, height, height / 2)
+	ctx.stroke()
+}
+
+/**
+ * 在浏览器中用 Canvas 绘制与 /blog/[id]/og 相同版式的分享图，供写作页生成封面
+ * 分享图接口在服务端渲染开销较大，不对外开放按参数生成
+ */
+export async function renderOgCover({ title, tags = [], date }: OgImagePost): Promise<Blob> {
+	const { meta, theme } = siteContent
+	const { width, height } = OG_IMAGE_SIZE
+	const shownTags = tags.slice(0, OG_MAX_TAGS)
+	const dateText = formatOgDate(date)
+
+	const canvas = document.createElement('canvas')
+	canvas.width = width
+	canvas.height = height
+	const ctx = canvas.getContext('2d')
+	if (!ctx) throw new Error('浏览器不支持 Canvas')
+
+	const [avatar] = await Promise.all([loadImage(AVATAR_URL), document.fonts.ready])
+
+	ctx.fillStyle = theme.colorBg
+	ctx.fillRect(0, 0, width, height)
+
+	const stripe = ctx.createLinearGradient(0, 0, 0, height)
+	stripe.addColorStop(0, theme.colorBrand)
+	stripe.addColorStop(1, theme.colorBrandSecondary)
+	ctx.fillStyle = stripe
+	ctx.fillRect(0, 0, 16, height)
+
+	ctx.textBaseline = 'middle'
+
+	// 标签
+	ctx.font = `${TAG_FONT_SIZE}px ${FONT_FAMILY}`
+	ctx.strokeStyle = theme.colorBrand
+	ctx.fillStyle = theme.colorBrand
+	ctx.lineWidth = 2
+	let tagX = PADDING_X
+	for (const tag of shownTags) {
+		const tagWidth = ctx.measureText(`#${tag}`).width + 44
+		drawPill(ctx, tagX + 1, PADDING_Y + 1, tagWidth - 2, TAG_HEIGHT - 2)
+		ctx.fillText(`#${tag}`, tagX + 22, PADDING_Y + TAG_HEIGHT / 2)
+		tagX += tagWidth + 16
+	}
+
+	// 标题在标签与底栏之间垂直居中，与 Satori 的 space-between 一致
+	const titleSize = title.length > 30 ? 56 : 68
+	const lineHeight = titleSize * 1.3
+	ctx.font = `700 ${titleSize}px ${FONT_FAMILY}`
+	ctx.fillStyle = theme.colorPrimary
+	const lines = wrapText(ctx, title, width - PADDING_X * 2, TITLE_MAX_LINES)
+	const tagsHeight = shownTags.length ? TAG_HEIGHT : 0
+	const gap = (height - PADDING_Y * 2 - tagsHeight - lines.length * lineHeight - AVATAR_SIZE) / 2
+	lines.forEach((line, index) => ctx.fillText(line, PADDING_X, PADDING_Y + tagsHeight + gap + (index + 0.5) * lineHeight))
+
+	// 底栏：头像、站点名、日期
+	const footerY = height - PADDING_Y - AVATAR_SIZE / 2
+	const avatarX = PADDING_X + AVATAR_SIZE / 2
+	ctx.save()
+	ctx.beginPath()
+	ctx.arc(avatarX, footerY, AVATAR_SIZE / 2, 0, Math.PI * 2)
+	ctx.clip()
+	if (avatar) {
+		ctx.drawImage(avatar, PADDING_X, footerY - AVATAR_SIZE / 2, AVATAR_SIZE, AVATAR_SIZE)
+	} else {
+		ctx.fillStyle = theme.colorBrand
+		ctx.fill()
+		ctx.font = `700 32px ${FONT_FAMILY}`
+		ctx.fillStyle = theme.colorBg
+		ctx.textAlign = 'center'
+		ctx.fillText(Array.from(meta.title)[0] ?? '', avatarX, footerY)
+	}
+	ctx.restore()
+	ctx.beginPath()
+	ctx.arc(avatarX, footerY, AVATAR_SIZE / 2 - 1.5, 0, Math.PI * 2)
+	ctx.strokeStyle = theme.colorBrand
+	ctx.lineWidth = 3
+	ctx.stroke()
+
+	ctx.font = `28px ${FONT_FAMILY}`
+	ctx.fillStyle = theme.colorPrimary
+	ctx.fillText(meta.title, PADDING_X + AVATAR_SIZE + 20, footerY)
+	if (dateText) {
+		ctx.fillStyle = theme.colorSecondary
+		ctx.textAlign = 'right'
+		ctx.fillText(dateText, width - PADDING_X, footerY)
+	}
+
+	return new Promise((resolve, reject) => canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('生成封面失败'))), 'image/png'))
+}
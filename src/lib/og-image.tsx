@@ -0,0 +1,188 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { ImageResponse } from 'next/og'
+import siteContent from '@/config/site-content.json'
+import { formatOgDate, OG_IMAGE_SIZE, OG_MAX_TAGS, type OgImagePost } from '@/lib/og-cover'
+
+type FontWeight = 400 | 700
+
+type FontSubset = {
+	// Satori 同名同字重只保留一个字体，每个子集单独命名，缺字时依次回退
+	name: string
+	file: string
+	ranges: [number, number][]
+}
+
+const FONT_NAME = 'Noto Sans SC'
+const FONT_DIR = path.join(process.cwd(), 'node_modules/@fontsource/noto-sans-sc')
+const AVATAR_PATH = path.join(process.cwd(), 'public/images/avatar.png')
+
+const subsetCache = new Map<FontWeight, Promise<FontSubset[]>>()
+const fontFileCache = new Map<string, Promise<Buffer>>()
+
+const parseUnicodeRange = (value: string): [number, number][] =>
+	value.split(',').map(part => {
+		const [start, end = start] = part.trim().replace(/^U\+/i, '').split('-')
+		// U+4?? 这类通配写法
+		return [parseInt(start.replace(/\?/g, '0'), 16), parseInt(end.replace(/\?/g, 'f'), 16)]
+	})
+
+/**
+ * fontsource 按 unicode-range 把字体拆成上百个子集，从对应字重的 CSS 中读出每个子集的 woff 文件与字符范围
+ * Satori 不支持 woff2，只取 woff
+ */
+const loadSubsets = (weight: FontWeight): Promise<FontSubset[]> => {
+	let subsets = subsetCache.get(weight)
+	if (!subsets) {
+		subsets = fs.readFile(path.join(FONT_DIR, `${weight}.css`), 'utf-8').then(css =>
+			css
+				.split('@font-face')
+				.map(block => {
+					const file = /url\(\.\/files\/([^)]+\.woff)\)\s*format\('woff'\)/.exec(block)?.[1]
+					const range = /unicode-range:\s*([^;]+);/.exec(block)?.[1]
+					return file && range ? { name: `${FONT_NAME} ${file.replace(`-${weight}-normal.woff`, '')}`, file, ranges: parseUnicodeRange(range) } : null
+				})
+				.filter((subset): subset is FontSubset => subset !== null)
+		)
+		subsetCache.set(weight, subsets)
+	}
+	return subsets
+}
+
+const readFontFile = (file: string): Promise<Buffer> => {
+	let data = fontFileCache.get(file)
+	if (!data) {
+		data = fs.readFile(path.join(FONT_DIR, 'files', file))
+		fontFileCache.set(file, data)
+	}
+	return data
+}
+
+/**
+ * 只加载覆盖到图片文字的子集，整套中文字体有数 MB
+ */
+async function loadFonts(text: string) {
+	const codePoints = Array.from(new Set(text)).map(char => char.codePointAt(0)!)
+	const weights: FontWeight[] = [400, 700]
+
+	const fonts = await Promise.all(
+		weights.map(async weight => {
+			const subsets = (await loadSubsets(weight)).filter(subset => codePoints.some(code => subset.ranges.some(([start, end]) => code >= start && code <= end)))
+			return Promise.all(subsets.map(async subset => ({ name: subset.name, data: await readFontFile(subset.file), weight, style: 'normal' as const })))
+		})
+	)
+	return fonts.flat()
+}
+
+// 按文件头判断格式，头像上传后可能是 webp，Satori 不支持时改用站点名首字
+const detectImageType = (data: Buffer): string | null => {
+	if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png'
+	if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg'
+	if (data.subarray(0, 3).toString('ascii') === 'GIF') return 'image/gif'
+	return null
+}
+
+async function loadAvatar(): Promise<string | null> {
+	try {
+		const data = await fs.readFile(AVATAR_PATH)
+		const type = detectImageType(data)
+		return type ? `data:${type};base64,${data.toString('base64')}` : null
+	} catch {
+		return null
+	}
+}
+
+/**
+ * 文章分享图：标题、标签、日期、站点头像，配色取自 site-content.json 的主题色
+ * 文章页没有封面时作为 og:image；写作页生成封面用的是 og-cover 中相同版式的 Canvas 版本
+ */
+export async function renderOgImage({ title, tags = [], date }: OgImagePost): Promise<ImageResponse> {
+	const { meta, theme } = siteContent
+	const shownTags = tags.slice(0, OG_MAX_TAGS)
+	const dateText = formatOgDate(date)
+
+	const [fonts, avatar] = await Promise.all([loadFonts([title, ...shownTags, '#', dateText, meta.title, meta.username].join('')), loadAvatar()])
+
+	return new ImageResponse(
+		(
+			<div
+				style={{
+					width: '100%',
+					height: '100%',
+					display: 'flex',
+					flexDirection: 'column',
+					justifyContent: 'space-between',
+					padding: '72px 80px',
+					backgroundColor: theme.colorBg,
+					position: 'relative'
+				}}>
+				<div
+					style={{
+						position: 'absolute',
+						left: 0,
+						top: 0,
+						bottom: 0,
+						width: 16,
+						backgroundImage: `linear-gradient(180deg, ${theme.colorBrand}, ${theme.colorBrandSecondary})`
+					}}
+				/>
+
+				<div style={{ display: 'flex', gap: 16 }}>
+					{shownTags.map(tag => (
+						<div
+							key={tag}
+							style={{
+								display: 'flex',
+								padding: '6px 20px',
+								borderRadius: 999,
+								border: `2px solid ${theme.colorBrand}`,
+								color: theme.colorBrand,
+								fontSize: 26
+							}}>
+							#{tag}
+						</div>
+					))}
+				</div>
+
+				<div
+					style={{
+						display: 'block',
+						color: theme.colorPrimary,
+						fontSize: title.length > 30 ? 56 : 68,
+						fontWeight: 700,
+						lineHeight: 1.3,
+						lineClamp: 3
+					}}>
+					{title}
+				</div>
+
+				<div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', color: theme.colorSecondary, fontSize: 28 }}>
+					<div style={{ display: 'flex', alignItems: 'center', gap: 20 }}>
+						{avatar ? (
+							<img src={avatar} width={72} height={72} style={{ borderRadius: 999, border: `3px solid ${theme.colorBrand}` }} />
+						) : (
+							<div
+								style={{
+									display: 'flex',
+									alignItems: 'center',
+									justifyContent: 'center',
+									width: 72,
+									height: 72,
+									borderRadius: 999,
+									backgroundColor: theme.colorBrand,
+									color: theme.colorBg,
+									fontSize: 32,
+									fontWeight: 700
+								}}>
+								{Array.from(meta.title)[0]}
+							</div>
+						)}
+						<span style={{ color: theme.colorPrimary }}>{meta.title}</span>
+					</div>
+					{dateText && <span>{dateText}</span>}
+				</div>
+			</div>
+		),
+		{ ...OG_IMAGE_SIZE, fonts }
+	)
+}
@@ -0,0 +1,77 @@
+import { createIdbStore } from '@/lib/idb'
+import { getSiteStorageKey } from '@/hooks/use-site-registry'
+
+/**
+ * 口令保护的私钥保险库
+ * 私钥用 PBKDF2(口令) 派生的 AES-GCM 密钥加密后存入 IndexedDB，盐和迭代次数随密文保存，
+ * 口令和明文私钥都不落盘，每个站点单独保存
+ */
+
+const VAULT_KEY = 'default'
+const PBKDF2_ITERATIONS = 310_000
+
+type VaultRecord = {
+	key: string
+	salt: string
+	iterations: number
+	iv: string
+	ciphertext: string
+	createdAt: number
+}
+
+const vaultStore = createIdbStore<VaultRecord>('pem-vault', 'vault')
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes))
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0))
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+	const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+	return crypto.subtle.deriveKey({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, baseKey, { name: 'AES-GCM', length: 256 }, false, [
+		'encrypt',
+		'decrypt'
+	])
+}
+
+export async function hasPemVault(): Promise<boolean> {
+	try {
+		return !!(await vaultStore.get(getSiteStorageKey(VAULT_KEY)))
+	} catch {
+		return false
+	}
+}
+
+export async function createPemVault(pem: string, passphrase: string): Promise<void> {
+	const salt = crypto.getRandomValues(new Uint8Array(16))
+	const iv = crypto.getRandomValues(new Uint8Array(12))
+	const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+	const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(pem))
+
+	await vaultStore.put({
+		key: getSiteStorageKey(VAULT_KEY),
+		salt: toBase64(salt),
+		iterations: PBKDF2_ITERATIONS,
+		iv: toBase64(iv),
+		ciphertext: toBase64(new Uint8Array(encrypted)),
+		createdAt: Date.now()
+	})
+}
+
+/**
+ * @throws 保险库不存在或口令错误
+ */
+export async function unlockPemVault(passphrase: string): Promise<string> {
+	const record = await vaultStore.get(getSiteStorageKey(VAULT_KEY))
+	if (!record) throw new Error('没有已保存的私钥')
+
+	const key = await deriveKey(passphrase, fromBase64(record.salt), record.iterations)
+	try {
+		const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, key, fromBase64(record.ciphertext))
+		return new TextDecoder().decode(decrypted)
+	} catch {
+		throw new Error('口令错误')
+	}
+}
+
+export async function deletePemVault(): Promise<void> {
+	await vaultStore.delete(getSiteStorageKey(VAULT_KEY))
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { getActiveSite } from '@/hooks/use-site-registry'
+import { contentStoreRequiresAuth, getContentStore, type ContentStore } from '@/lib/content-store'
+import { useAuthStore } from '@/hooks/use-auth'
+import type { BlogConfig } from '@/app/blog/types'
+
+/**
+ * 协作者角色，在仓库的 permissions.json 中按 GitHub 账号配置
+ * author: 只能发布、修改、删除自己的文章
+ * editor: 可以修改所有文章和其他内容页面
+ * admin: 额外可以修改站点配置（site-content.json、card-styles.json）
+ */
+export type Role = 'author' | 'editor' | 'admin'
+
+export const PERMISSIONS_PATH = 'src/config/permissions.json'
+
+export const ROLE_LABELS: Record<Role, string> = {
+	author: '作者',
+	editor: '编辑',
+	admin: '管理员'
+}
+
+const ROLE_RANK: Record<Role, number> = { author: 1, editor: 2, admin: 3 }
+
+type PermissionsConfig = {
+	roles: Record<string, Role>
+}
+
+export type Actor = {
+	login: string | null
+	role: Role | null
+}
+
+export class PermissionDeniedError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'PermissionDeniedError'
+	}
+}
+
+async function readPermissions(store: ContentStore): Promise<PermissionsConfig> {
+	try {
+		const text = await store.readTextFile(PERMISSIONS_PATH, getActiveSite().branch)
+		if (text) return JSON.parse(text)
+	} catch {
+		// 文件不存在或格式错误时不授予任何协作者角色
+	}
+	return { roles: {} }
+}
+
+/**
+ * 当前操作者及其角色
+ * 本地存储和 App 私钥持有者（站点所有者）视为管理员，访问令牌 / GitHub 登录按 permissions.json 查找
+ */
+export async function getCurrentActor(store: ContentStore = getContentStore()): Promise<Actor> {
+	if (!contentStoreRequiresAuth()) return { login: null, role: 'admin' }
+
+	const { provider, login } = useAuthStore.getState()
+	if (provider === 'app') return { login, role: 'admin' }
+	if (!login) return { login: null, role: null }
+
+	const { roles } = await readPermissions(store)
+	return { login, role: roles[login] ?? null }
+}
+
+const hasRole = (actor: Actor, role: Role): boolean => !!actor.role && ROLE_RANK[actor.role] >= ROLE_RANK[role]
+
+/**
+ * @param action 操作名称，用于错误提示
+ * @throws PermissionDeniedError
+ */
+export async function requireRole(role: Role, action: string, store?: ContentStore): Promise<Actor> {
+	const actor = await getCurrentActor(store)
+	if (!hasRole(actor, role)) {
+		throw new PermissionDeniedError(`${action}需要${ROLE_LABELS[role]}权限`)
+	}
+	return actor
+}
+
+export async function readPostAuthor(store: ContentStore, slug: string, ref: string = getActiveSite().branch): Promise<string | undefined> {
+	try {
+		const text = await store.readTextFile(`public/blogs/${slug}/config.json`, ref)
+		return text ? (JSON.parse(text) as BlogConfig).author : undefined
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * 校验当前操作者可以修改该文章：编辑及以上可修改所有文章，作者只能修改自己发布的或新建文章
+ * @returns 操作者，以及文章已有的作者（新文章为 undefined）
+ * @throws PermissionDeniedError
+ */
+export async function requirePostAccess(store: ContentStore, slug: string, action: string): Promise<{ actor: Actor; author?: string }> {
+	const actor = await requireRole('author', action, store)
+	const author = await readPostAuthor(store, slug)
+	if (hasRole(actor, 'editor')) return { actor, author }
+
+	const exists = author !== undefined || (await store.listFilesRecursive(`public/blogs/${slug}`, getActiveSite().branch)).length > 0
+	if (exists && author !== actor.login) {
+		throw new PermissionDeniedError(`只能${action}自己的文章`)
+	}
+	return { actor, author }
+}
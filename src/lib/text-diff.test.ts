@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { diffLines } from '@/lib/text-diff'
+
+const reconstruct = (lines: ReturnType<typeof diffLines>) => ({
+	old: lines
+		.filter(line => line.type !== 'add')
+		.map(line => line.text)
+		.join('\n'),
+	new: lines
+		.filter(line => line.type !== 'remove')
+		.map(line => line.text)
+		.join('\n')
+})
+
+const countChanges = (lines: ReturnType<typeof diffLines>) => lines.filter(line => line.type !== 'equal').length
+
+describe('diffLines', () => {
+	it('diffs small texts line by line', () => {
+		const lines = diffLines('a\nb\nc\nd', 'a\nc\nx\nd')
+
+		expect(lines.map(line => `${line.type}:${line.text}`)).toEqual(['equal:a', 'remove:b', 'equal:c', 'add:x', 'equal:d'])
+		expect(lines[3].newNo).toBe(3)
+	})
+
+	it('uses a minimal diff for large texts without allocating an n×m table', () => {
+		const oldLines = Array.from({ length: 20000 }, (_, i) => `line ${i}`)
+		const newLines = oldLines.filter((_, i) => i % 1000 !== 1).map((line, i) => (i % 1500 === 7 ? `${line} changed` : line))
+		const oldText = oldLines.join('\n')
+		const newText = newLines.join('\n')
+
+		const lines = diffLines(oldText, newText)
+
+		expect(reconstruct(lines)).toEqual({ old: oldText, new: newText })
+		// 20 行删除 + 14 行修改（各算一删一增）
+		expect(countChanges(lines)).toBe(20 + 14 * 2)
+	})
+
+	it('treats completely different large texts as a replacement', () => {
+		const oldText = Array.from({ length: 5000 }, (_, i) => `old ${i}`).join('\n')
+		const newText = Array.from({ length: 5000 }, (_, i) => `new ${i}`).join('\n')
+
+		const lines = diffLines(oldText, newText)
+
+		expect(reconstruct(lines)).toEqual({ old: oldText, new: newText })
+		expect(countChanges(lines)).toBe(10000)
+	})
+})
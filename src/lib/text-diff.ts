@@ -0,0 +1,198 @@
+export type DiffLine = {
+	type: 'equal' | 'add' | 'remove'
+	text: string
+	oldNo?: number
+	newNo?: number
+}
+
+export type DiffHunk = { type: 'lines'; lines: DiffLine[] } | { type: 'skip'; count: number }
+
+type EditOp = 'equal' | 'add' | 'remove'
+
+// LCS 表超过该单元数（约 16MB）时改用 Myers 算法
+const MAX_LCS_CELLS = 4_000_000
+// Myers 算法的最大编辑距离，超过时整段视为替换，回溯记录占用 O(D²) 内存
+const MAX_EDIT_DISTANCE = 2000
+
+function lcsOps(a: number[], b: number[]): EditOp[] {
+	const n = a.length
+	const m = b.length
+	// lcs[i * (m + 1) + j]: a[i..n) 与 b[j..m) 的最长公共子序列长度
+	const lcs = new Uint32Array((n + 1) * (m + 1))
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lcs[i * (m + 1) + j] = a[i] === b[j] ? lcs[(i + 1) * (m + 1) + j + 1] + 1 : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1])
+		}
+	}
+
+	const ops: EditOp[] = []
+	let i = 0
+	let j = 0
+	while (i < n || j < m) {
+		if (i < n && j < m && a[i] === b[j]) {
+			ops.push('equal')
+			i++
+			j++
+		} else if (i < n && (j >= m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+			ops.push('remove')
+			i++
+		} else {
+			ops.push('add')
+			j++
+		}
+	}
+	return ops
+}
+
+/**
+ * Myers O((N+M)D) 差异算法，每一步只保存 -d..d 范围的对角线用于回溯
+ * 编辑距离超过 maxDistance 时返回 null
+ */
+function myersOps(a: number[], b: number[], maxDistance: number): EditOp[] | null {
+	const n = a.length
+	const m = b.length
+	const max = Math.min(n + m, maxDistance)
+	const offset = max + 1
+	const v = new Int32Array(2 * max + 3)
+	const trace: Int32Array[] = []
+
+	for (let d = 0; d <= max; d++) {
+		for (let k = -d; k <= d; k += 2) {
+			let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+			let y = x - k
+			while (x < n && y < m && a[x] === b[y]) {
+				x++
+				y++
+			}
+			v[offset + k] = x
+			if (x >= n && y >= m) return backtrackMyers(trace, d, n, m)
+		}
+		trace.push(v.slice(offset - d, offset + d + 1))
+	}
+	return null
+}
+
+function backtrackMyers(trace: Int32Array[], distance: number, n: number, m: number): EditOp[] {
+	const ops: EditOp[] = []
+	let x = n
+	let y = m
+	for (let d = distance; d > 0; d--) {
+		// trace[d - 1] 记录第 d - 1 步后 k ∈ [-(d - 1), d - 1] 的 x
+		const prev = trace[d - 1]
+		const prevX = (k: number) => prev[k + d - 1]
+		const k = x - y
+		const prevK = k === -d || (k !== d && prevX(k - 1) < prevX(k + 1)) ? k + 1 : k - 1
+		const startX = prevX(prevK)
+		const startY = startX - prevK
+		while (x > startX && y > startY) {
+			ops.push('equal')
+			x--
+			y--
+		}
+		ops.push(prevK === k + 1 ? 'add' : 'remove')
+		x = startX
+		y = startY
+	}
+	while (x > 0 && y > 0) {
+		ops.push('equal')
+		x--
+		y--
+	}
+	return ops.reverse()
+}
+
+/**
+ * 按行对比两段文本，先裁掉相同的首尾以减少计算量
+ * 行先映射为整数编号再比较；中间部分较小时用 LCS，较大时用 Myers，差异过大时整段视为替换
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = oldText.split('\n')
+	const b = newText.split('\n')
+
+	let start = 0
+	while (start < a.length && start < b.length && a[start] === b[start]) start++
+	let endA = a.length
+	let endB = b.length
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--
+		endB--
+	}
+
+	const ids = new Map<string, number>()
+	const toId = (line: string) => {
+		let id = ids.get(line)
+		if (id === undefined) {
+			id = ids.size
+			ids.set(line, id)
+		}
+		return id
+	}
+	const midA = a.slice(start, endA).map(toId)
+	const midB = b.slice(start, endB).map(toId)
+
+	const ops =
+		(midA.length + 1) * (midB.length + 1) <= MAX_LCS_CELLS
+			? lcsOps(midA, midB)
+			: (myersOps(midA, midB, MAX_EDIT_DISTANCE) ?? [...midA.map((): EditOp => 'remove'), ...midB.map((): EditOp => 'add')])
+
+	const result: DiffLine[] = []
+	for (let k = 0; k < start; k++) {
+		result.push({ type: 'equal', text: a[k], oldNo: k + 1, newNo: k + 1 })
+	}
+
+	let i = start
+	let j = start
+	for (const op of ops) {
+		if (op === 'equal') {
+			result.push({ type: 'equal', text: a[i], oldNo: i + 1, newNo: j + 1 })
+			i++
+			j++
+		} else if (op === 'remove') {
+			result.push({ type: 'remove', text: a[i], oldNo: i + 1 })
+			i++
+		} else {
+			result.push({ type: 'add', text: b[j], newNo: j + 1 })
+			j++
+		}
+	}
+
+	for (let k = 0; k < a.length - endA; k++) {
+		result.push({ type: 'equal', text: a[endA + k], oldNo: endA + k + 1, newNo: endB + k + 1 })
+	}
+
+	return result
+}
+
+/**
+ * 折叠大段未修改的行，只保留改动附近的上下文
+ */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+	const keep = new Array<boolean>(lines.length).fill(false)
+	lines.forEach((line, index) => {
+		if (line.type === 'equal') return
+		for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) keep[k] = true
+	})
+
+	const hunks: DiffHunk[] = []
+	let skipped = 0
+	let current: DiffLine[] = []
+	lines.forEach((line, index) => {
+		if (keep[index]) {
+			if (skipped > 0) {
+				hunks.push({ type: 'skip', count: skipped })
+				skipped = 0
+			}
+			current.push(line)
+		} else {
+			if (current.length > 0) {
+				hunks.push({ type: 'lines', lines: current })
+				current = []
+			}
+			skipped++
+		}
+	})
+	if (current.length > 0) hunks.push({ type: 'lines', lines: current })
+	if (skipped > 0) hunks.push({ type: 'skip', count: skipped })
+
+	return hunks
+}
@@ -34,3 +34,19 @@ export function getFileExt(filename: string): string {
 export function rand(a: number, b: number) {
 	return a + Math.random() * (b - a)
 }
+
+/**
+ * 以最多 limit 个并发执行异步任务，结果顺序与输入一致
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+	const results = new Array<R>(items.length)
+	let next = 0
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++
+			results[index] = await fn(items[index], index)
+		}
+	}
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+	return results
+}